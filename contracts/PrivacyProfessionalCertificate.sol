@@ -1,13 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint64, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, euint8, ebool, externalEuint64, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract PrivacyProfessionalCertificate is SepoliaConfig {
 
     address public owner;
     uint256 public nextCertificateId;
+    bool public demoMode;
+    bool public paused;
 
     struct Certificate {
         address holder;
@@ -17,10 +19,77 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         bool isValid;
         uint256 issueDate;
         uint256 expiryDate;
-        string issuer;
+        address issuer;
         bytes32 hashedCredentials;
     }
 
+    enum CertificateStatus {
+        NonExistent,
+        Valid,
+        Revoked,
+        Expired,
+        Suspended
+    }
+
+    // Public (non-encrypted) view of a certificate, returned by lookupCertificate
+    struct CertificateInfo {
+        address holder;
+        string profession;
+        bool isValid;
+        uint256 issueDate;
+        uint256 expiryDate;
+        address issuer;
+        string issuerOrganization;
+        bool issuerActive;
+        bytes32 credentialHash;
+        bool renewalRequested;
+    }
+
+    enum DisclosureField {
+        Score,
+        Level
+    }
+
+    // A holder-approved answer to "field >= threshold", readable only by the named verifier
+    struct Disclosure {
+        uint256 certificateId;
+        address holder;
+        address verifier;
+        DisclosureField field;
+        uint64 threshold;
+        ebool result;
+        uint256 createdAt;
+        bool isRevoked;
+    }
+
+    // Holder-granted access to the raw encrypted values, honoured until expiresAt
+    struct AccessGrant {
+        bool score;
+        bool level;
+        uint256 expiresAt;
+    }
+
+    struct IssuerInfo {
+        string organization;
+        string metadataURI;
+        bool isActive;
+        uint256 authorizedAt;
+    }
+
+    enum RequestStatus {
+        Pending,
+        AwaitingDecryption,
+        Approved,
+        Rejected
+    }
+
+    // Evidence is encrypted to one issuer's key and kept off-chain; only its hash and location are stored
+    struct EvidenceRef {
+        bytes32 contentHash;
+        string uri;
+        address recipient;
+    }
+
     struct CertificationRequest {
         address applicant;
         string profession;
@@ -29,143 +98,383 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         bool isProcessed;
         bool isApproved;
         uint256 requestTime;
-        string evidence;
+        bytes32 evidenceHash;
+        string evidenceURI;
+        address evidenceRecipient;
     }
 
     mapping(uint256 => Certificate) public certificates;
     mapping(address => uint256[]) public holderCertificates;
     mapping(uint256 => CertificationRequest) public certificationRequests;
     mapping(address => bool) public authorizedIssuers;
+    mapping(address => IssuerInfo) public issuerRegistry;
+    mapping(address => bool) public issuerAdmins;
+    mapping(address => mapping(string => bool)) public issuerProfessions;
+    mapping(address => bytes) public evidenceKeys;
     mapping(string => uint256) public minimumScoreRequirement;
     mapping(string => uint8) public minimumLevelRequirement;
+    mapping(string => uint256) public professionValidityDays;
+    mapping(uint256 => bool) public renewalRequested;
+    mapping(uint256 => RequestStatus) public requestStatus;
+    mapping(uint256 => Disclosure) private disclosures;
+    mapping(uint256 => mapping(address => AccessGrant)) public accessGrants;
+    mapping(string => bool) public isRegisteredProfession;
+    string[] private professions;
+
+    // Decryption oracle request ID => certification request ID
+    mapping(uint256 => uint256) private decryptionToRequest;
+    mapping(uint256 => address) private pendingIssuer;
 
     uint256 public nextRequestId;
+    uint256 public nextDisclosureId;
 
     event CertificateIssued(uint256 indexed certificateId, address indexed holder, string profession);
     event CertificationRequested(uint256 indexed requestId, address indexed applicant, string profession);
     event CertificationApproved(uint256 indexed requestId, uint256 indexed certificateId);
     event CertificationRejected(uint256 indexed requestId, string reason);
+    event CertificationDecisionRequested(uint256 indexed requestId, uint256 decryptionRequestId);
     event CertificateRevoked(uint256 indexed certificateId, string reason);
+    event CertificateValidityExtended(uint256 indexed certificateId, uint256 newExpiryDate, string reason);
+    event RenewalRequested(uint256 indexed certificateId, address indexed holder);
     event IssuerAuthorized(address indexed issuer, string organization);
+    event IssuerMetadataUpdated(address indexed issuer, string metadataURI);
     event IssuerRevoked(address indexed issuer);
+    event IssuerAdminUpdated(address indexed admin, bool enabled);
+    event IssuerProfessionUpdated(address indexed issuer, string profession, bool allowed);
+    event EvidenceKeyUpdated(address indexed issuer, bytes publicKey);
+    event DisclosureGranted(
+        uint256 indexed disclosureId,
+        address indexed holder,
+        address indexed verifier,
+        uint256 certificateId,
+        DisclosureField field,
+        uint64 threshold
+    );
+    event DisclosureRevoked(uint256 indexed disclosureId);
+    event DisclosureClaimed(uint256 indexed disclosureId, address indexed verifier, ebool result);
+    event AccessGranted(
+        uint256 indexed certificateId,
+        address indexed holder,
+        address indexed verifier,
+        bool score,
+        bool level,
+        uint256 expiresAt
+    );
+    event AccessRevoked(uint256 indexed certificateId, address indexed holder, address indexed verifier);
+    event AccessClaimed(uint256 indexed certificateId, address indexed verifier, euint64 score, euint8 level);
+    event DemoModeChanged(bool enabled);
+    event ContractPaused(address indexed by, string reason);
+    event ContractUnpaused(address indexed by);
+    event ProfessionRequirementsUpdated(string profession, uint256 minScore, uint8 minLevel, uint256 validityDays);
 
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
         _;
     }
 
-    modifier onlyAuthorizedIssuer() {
-        require(authorizedIssuers[msg.sender] || msg.sender == owner, "Not authorized issuer");
+    modifier whenNotPaused() {
+        require(!paused, "Contract paused");
+        _;
+    }
+
+    modifier onlyIssuerAdmin() {
+        require(issuerAdmins[msg.sender], "Not issuer admin");
+        _;
+    }
+
+    // Issuers act only on professions an issuer admin has assigned to them
+    modifier onlyIssuerFor(string memory _profession) {
+        _checkIssuerFor(_profession);
+        _;
+    }
+
+    modifier validRequest(uint256 _requestId) {
+        require(_requestId > 0 && _requestId < nextRequestId, "Invalid request ID");
         _;
     }
 
     modifier validCertificate(uint256 _certificateId) {
+        _checkValidCertificate(_certificateId);
+        _;
+    }
+
+    // Modifier bodies are inlined at every use, so the checks live in functions to keep the bytecode under the size limit
+    function _checkIssuerFor(string memory _profession) private view {
+        require(authorizedIssuers[msg.sender], "Not authorized issuer");
+        require(issuerProfessions[msg.sender][_profession], "Not authorized for profession");
+    }
+
+    function _checkValidCertificate(uint256 _certificateId) private view {
         require(_certificateId > 0 && _certificateId <= nextCertificateId, "Invalid certificate ID");
         require(certificates[_certificateId].isValid, "Certificate not valid");
         require(certificates[_certificateId].expiryDate > block.timestamp, "Certificate expired");
-        _;
     }
 
     constructor() {
         owner = msg.sender;
         nextCertificateId = 1;
         nextRequestId = 1;
+        nextDisclosureId = 1;
 
-        // Set default minimum requirements for common professions
-        minimumScoreRequirement["Software Engineer"] = 75;
-        minimumLevelRequirement["Software Engineer"] = 3;
-
-        minimumScoreRequirement["Data Scientist"] = 80;
-        minimumLevelRequirement["Data Scientist"] = 4;
+        issuerAdmins[msg.sender] = true;
+        emit IssuerAdminUpdated(msg.sender, true);
 
-        minimumScoreRequirement["Cybersecurity Specialist"] = 85;
-        minimumLevelRequirement["Cybersecurity Specialist"] = 4;
+        // Set default minimum requirements for common professions
+        _setProfessionRequirements("Software Engineer", 75, 3, 365);
+        _setProfessionRequirements("Data Scientist", 80, 4, 365);
+        _setProfessionRequirements("Cybersecurity Specialist", 85, 4, 365);
+        _setProfessionRequirements("Project Manager", 70, 3, 365);
+    }
 
-        minimumScoreRequirement["Project Manager"] = 70;
-        minimumLevelRequirement["Project Manager"] = 3;
+    function setIssuerAdmin(address _admin, bool _enabled) external onlyOwner {
+        issuerAdmins[_admin] = _enabled;
+        emit IssuerAdminUpdated(_admin, _enabled);
     }
 
-    function authorizeIssuer(address _issuer, string memory _organization) external onlyOwner {
+    function authorizeIssuer(
+        address _issuer,
+        string memory _organization,
+        string memory _metadataURI
+    ) external onlyIssuerAdmin {
+        require(_issuer != address(0), "Invalid issuer address");
+        require(bytes(_organization).length > 0, "Organization required");
+
         authorizedIssuers[_issuer] = true;
+        issuerRegistry[_issuer] = IssuerInfo({
+            organization: _organization,
+            metadataURI: _metadataURI,
+            isActive: true,
+            authorizedAt: block.timestamp
+        });
+
         emit IssuerAuthorized(_issuer, _organization);
+        emit IssuerMetadataUpdated(_issuer, _metadataURI);
     }
 
-    function revokeIssuer(address _issuer) external onlyOwner {
+    // The registry entry is kept so certificates can still show who issued them
+    function revokeIssuer(address _issuer) external onlyIssuerAdmin {
         authorizedIssuers[_issuer] = false;
+        issuerRegistry[_issuer].isActive = false;
         emit IssuerRevoked(_issuer);
     }
 
+    function setIssuerMetadata(address _issuer, string memory _metadataURI) external onlyIssuerAdmin {
+        require(bytes(issuerRegistry[_issuer].organization).length > 0, "Unknown issuer");
+        issuerRegistry[_issuer].metadataURI = _metadataURI;
+        emit IssuerMetadataUpdated(_issuer, _metadataURI);
+    }
+
+    function setIssuerProfession(
+        address _issuer,
+        string memory _profession,
+        bool _allowed
+    ) external onlyIssuerAdmin {
+        require(isRegisteredProfession[_profession], "Unknown profession");
+        issuerProfessions[_issuer][_profession] = _allowed;
+        emit IssuerProfessionUpdated(_issuer, _profession, _allowed);
+    }
+
+    // Issuers publish a compressed secp256k1 public key that applicants encrypt evidence to
+    function setEvidenceKey(bytes calldata _publicKey) external {
+        require(authorizedIssuers[msg.sender], "Not authorized issuer");
+        require(_publicKey.length == 33, "Invalid public key");
+
+        evidenceKeys[msg.sender] = _publicKey;
+        emit EvidenceKeyUpdated(msg.sender, _publicKey);
+    }
+
     function setProfessionRequirements(
         string memory _profession,
         uint256 _minScore,
-        uint8 _minLevel
+        uint8 _minLevel,
+        uint256 _validityDays
     ) external onlyOwner {
+        _setProfessionRequirements(_profession, _minScore, _minLevel, _validityDays);
+    }
+
+    // Creates the profession on first use so the registry can be enumerated
+    function _setProfessionRequirements(
+        string memory _profession,
+        uint256 _minScore,
+        uint8 _minLevel,
+        uint256 _validityDays
+    ) private {
+        require(bytes(_profession).length > 0, "Profession required");
+        require(_minScore <= 100, "Score must be between 0-100");
+        require(_minLevel <= 10, "Level must be between 1-10");
+        require(_validityDays > 0, "Validity period required");
+
+        if (!isRegisteredProfession[_profession]) {
+            isRegisteredProfession[_profession] = true;
+            professions.push(_profession);
+        }
+
         minimumScoreRequirement[_profession] = _minScore;
         minimumLevelRequirement[_profession] = _minLevel;
+        professionValidityDays[_profession] = _validityDays;
+        emit ProfessionRequirementsUpdated(_profession, _minScore, _minLevel, _validityDays);
+    }
+
+    // Toggle the plaintext submission path used for local demos (only owner)
+    function setDemoMode(bool _enabled) external onlyOwner {
+        demoMode = _enabled;
+        emit DemoModeChanged(_enabled);
     }
 
     function requestCertification(
+        string memory _profession,
+        externalEuint64 _encryptedScore,
+        externalEuint8 _encryptedLevel,
+        bytes calldata _inputProof,
+        EvidenceRef memory _evidence
+    ) external whenNotPaused {
+        // Values are encrypted client-side, so range checks happen homomorphically:
+        // out-of-range inputs are zeroed and can never meet a profession's requirements
+        euint64 score = FHE.fromExternal(_encryptedScore, _inputProof);
+        euint8 level = FHE.fromExternal(_encryptedLevel, _inputProof);
+
+        euint64 encryptedScore = FHE.select(FHE.le(score, 100), score, FHE.asEuint64(0));
+        euint8 encryptedLevel = FHE.select(FHE.le(level, 10), level, FHE.asEuint8(0));
+
+        _storeRequest(_profession, encryptedScore, encryptedLevel, _evidence);
+    }
+
+    // Plaintext submission path, only available while demo mode is enabled
+    function requestCertificationDemo(
         string memory _profession,
         uint64 _score,
         uint8 _level,
-        string memory _evidence
-    ) external {
+        EvidenceRef memory _evidence
+    ) external whenNotPaused {
+        require(demoMode, "Demo mode disabled");
         require(_score <= 100, "Score must be between 0-100");
         require(_level <= 10, "Level must be between 1-10");
-        require(bytes(_profession).length > 0, "Profession required");
-        require(bytes(_evidence).length > 0, "Evidence required");
 
-        // Encrypt sensitive data
-        euint64 encryptedScore = FHE.asEuint64(_score);
-        euint8 encryptedLevel = FHE.asEuint8(_level);
+        _storeRequest(_profession, FHE.asEuint64(_score), FHE.asEuint8(_level), _evidence);
+    }
+
+    function _storeRequest(
+        string memory _profession,
+        euint64 _encryptedScore,
+        euint8 _encryptedLevel,
+        EvidenceRef memory _evidence
+    ) private {
+        require(isRegisteredProfession[_profession], "Unknown profession");
+        require(_evidence.contentHash != bytes32(0) && bytes(_evidence.uri).length > 0, "Evidence required");
+        require(
+            authorizedIssuers[_evidence.recipient] && issuerProfessions[_evidence.recipient][_profession],
+            "Evidence recipient not an issuer for profession"
+        );
+        require(evidenceKeys[_evidence.recipient].length > 0, "Evidence recipient has no key");
 
         certificationRequests[nextRequestId] = CertificationRequest({
             applicant: msg.sender,
             profession: _profession,
-            encryptedScore: encryptedScore,
-            encryptedLevel: encryptedLevel,
+            encryptedScore: _encryptedScore,
+            encryptedLevel: _encryptedLevel,
             isProcessed: false,
             isApproved: false,
             requestTime: block.timestamp,
-            evidence: _evidence
+            evidenceHash: _evidence.contentHash,
+            evidenceURI: _evidence.uri,
+            evidenceRecipient: _evidence.recipient
         });
 
         // Set ACL permissions
-        FHE.allowThis(encryptedScore);
-        FHE.allowThis(encryptedLevel);
-        FHE.allow(encryptedScore, msg.sender);
-        FHE.allow(encryptedLevel, msg.sender);
+        FHE.allowThis(_encryptedScore);
+        FHE.allowThis(_encryptedLevel);
+        FHE.allow(_encryptedScore, msg.sender);
+        FHE.allow(_encryptedLevel, msg.sender);
 
         emit CertificationRequested(nextRequestId, msg.sender, _profession);
         nextRequestId++;
     }
 
-    function processCertificationRequest(
+    function processCertificationRequest(uint256 _requestId)
+        external
+        whenNotPaused
+        validRequest(_requestId)
+        onlyIssuerFor(certificationRequests[_requestId].profession)
+    {
+        require(requestStatus[_requestId] == RequestStatus.Pending, "Request already processed");
+
+        CertificationRequest storage request = certificationRequests[_requestId];
+
+        // Compare the encrypted values against the profession's requirements without decrypting them
+        ebool meetsScore = FHE.ge(
+            request.encryptedScore,
+            uint64(minimumScoreRequirement[request.profession])
+        );
+        ebool meetsLevel = FHE.ge(request.encryptedLevel, minimumLevelRequirement[request.profession]);
+        ebool approved = FHE.and(meetsScore, meetsLevel);
+        FHE.allowThis(approved);
+
+        // Only the yes/no decision is revealed, through the decryption oracle callback
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(approved);
+        uint256 decryptionRequestId = FHE.requestDecryption(cts, this.onApprovalDecrypted.selector);
+
+        decryptionToRequest[decryptionRequestId] = _requestId;
+        pendingIssuer[_requestId] = msg.sender;
+        requestStatus[_requestId] = RequestStatus.AwaitingDecryption;
+
+        emit CertificationDecisionRequested(_requestId, decryptionRequestId);
+    }
+
+    function rejectCertificationRequest(
         uint256 _requestId,
-        string memory _issuerName
-    ) external onlyAuthorizedIssuer {
-        require(_requestId > 0 && _requestId < nextRequestId, "Invalid request ID");
-        require(!certificationRequests[_requestId].isProcessed, "Request already processed");
+        string memory _reason
+    )
+        external
+        whenNotPaused
+        validRequest(_requestId)
+        onlyIssuerFor(certificationRequests[_requestId].profession)
+    {
+        require(requestStatus[_requestId] == RequestStatus.Pending, "Request already processed");
+        require(bytes(_reason).length > 0, "Reason required");
 
         CertificationRequest storage request = certificationRequests[_requestId];
         request.isProcessed = true;
+        request.isApproved = false;
+        requestStatus[_requestId] = RequestStatus.Rejected;
+
+        emit CertificationRejected(_requestId, _reason);
+    }
+
+    // Called by the decryption oracle once the approval decision has been decrypted.
+    // Not gated by the pause: the oracle does not retry, so in-flight decisions are still recorded
+    function onApprovalDecrypted(
+        uint256 _decryptionRequestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_decryptionRequestId, _cleartexts, _decryptionProof);
+        bool _approved = abi.decode(_cleartexts, (bool));
 
-        // For demonstration, we'll approve based on encrypted comparison
-        // In real implementation, this would use FHE comparison operations
-        request.isApproved = true; // Simplified approval logic
+        uint256 requestId = decryptionToRequest[_decryptionRequestId];
+        require(requestId != 0, "Unknown decryption request");
+        require(requestStatus[requestId] == RequestStatus.AwaitingDecryption, "Decision already recorded");
+        delete decryptionToRequest[_decryptionRequestId];
 
-        if (request.isApproved) {
+        CertificationRequest storage request = certificationRequests[requestId];
+        request.isProcessed = true;
+        request.isApproved = _approved;
+
+        if (_approved) {
+            requestStatus[requestId] = RequestStatus.Approved;
             _issueCertificate(
                 request.applicant,
                 request.profession,
                 request.encryptedScore,
                 request.encryptedLevel,
-                _issuerName
+                pendingIssuer[requestId]
             );
-            emit CertificationApproved(_requestId, nextCertificateId - 1);
+            emit CertificationApproved(requestId, nextCertificateId - 1);
         } else {
-            emit CertificationRejected(_requestId, "Requirements not met");
+            requestStatus[requestId] = RequestStatus.Rejected;
+            emit CertificationRejected(requestId, "Requirements not met");
         }
+        delete pendingIssuer[requestId];
     }
 
     function _issueCertificate(
@@ -173,7 +482,7 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         string memory _profession,
         euint64 _encryptedScore,
         euint8 _encryptedLevel,
-        string memory _issuer
+        address _issuer
     ) private {
         // Generate credential hash for verification
         bytes32 credentialHash = keccak256(abi.encodePacked(
@@ -190,7 +499,7 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
             encryptedLevel: _encryptedLevel,
             isValid: true,
             issueDate: block.timestamp,
-            expiryDate: block.timestamp + 365 days, // 1 year validity
+            expiryDate: block.timestamp + professionValidityDays[_profession] * 1 days,
             issuer: _issuer,
             hashedCredentials: credentialHash
         });
@@ -207,13 +516,26 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
 
     function revokeCertificate(uint256 _certificateId, string memory _reason)
         external
-        onlyAuthorizedIssuer
+        whenNotPaused
         validCertificate(_certificateId)
+        onlyIssuerFor(certificates[_certificateId].profession)
     {
+        require(bytes(_reason).length > 0, "Reason required");
+
         certificates[_certificateId].isValid = false;
+        delete renewalRequested[_certificateId];
         emit CertificateRevoked(_certificateId, _reason);
     }
 
+    // Holders ask their issuer to renew a certificate before it expires
+    function requestRenewal(uint256 _certificateId) external whenNotPaused validCertificate(_certificateId) {
+        require(msg.sender == certificates[_certificateId].holder, "Not certificate holder");
+        require(!renewalRequested[_certificateId], "Renewal already requested");
+
+        renewalRequested[_certificateId] = true;
+        emit RenewalRequested(_certificateId, msg.sender);
+    }
+
     function verifyCertificate(uint256 _certificateId)
         external
         view
@@ -224,22 +546,211 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
             bool isValid,
             uint256 issueDate,
             uint256 expiryDate,
-            string memory issuer,
+            address issuer,
+            string memory issuerOrganization,
+            bool issuerActive,
             bytes32 credentialHash
         )
     {
+        CertificateInfo memory info = _certificateInfo(_certificateId);
+        // A paused contract vouches for nothing, so every certificate reads as invalid until unpaused
+        return (
+            info.holder,
+            info.profession,
+            info.isValid && !paused,
+            info.issueDate,
+            info.expiryDate,
+            info.issuer,
+            info.issuerOrganization,
+            info.issuerActive,
+            info.credentialHash
+        );
+    }
+
+    // Never reverts, so verifiers can tell unknown, revoked and expired certificates apart
+    function lookupCertificate(uint256 _certificateId)
+        external
+        view
+        returns (CertificateStatus status, CertificateInfo memory info)
+    {
+        if (_certificateId == 0 || _certificateId >= nextCertificateId) {
+            return (CertificateStatus.NonExistent, info);
+        }
+
+        info = _certificateInfo(_certificateId);
+        if (!info.isValid) {
+            status = CertificateStatus.Revoked;
+        } else if (info.expiryDate <= block.timestamp) {
+            status = CertificateStatus.Expired;
+        } else if (paused) {
+            status = CertificateStatus.Suspended;
+        } else {
+            status = CertificateStatus.Valid;
+        }
+    }
+
+    function _certificateInfo(uint256 _certificateId) private view returns (CertificateInfo memory) {
         Certificate storage cert = certificates[_certificateId];
+        IssuerInfo storage issuerInfo = issuerRegistry[cert.issuer];
+        return CertificateInfo({
+            holder: cert.holder,
+            profession: cert.profession,
+            isValid: cert.isValid,
+            issueDate: cert.issueDate,
+            expiryDate: cert.expiryDate,
+            issuer: cert.issuer,
+            issuerOrganization: issuerInfo.organization,
+            issuerActive: issuerInfo.isActive,
+            credentialHash: cert.hashedCredentials,
+            renewalRequested: renewalRequested[_certificateId]
+        });
+    }
+
+    // Evaluates the predicate homomorphically; the verifier is granted the encrypted answer when claiming it
+    function createDisclosure(
+        uint256 _certificateId,
+        address _verifier,
+        DisclosureField _field,
+        uint64 _threshold
+    )
+        external
+        whenNotPaused
+        validCertificate(_certificateId)
+        returns (uint256)
+    {
+        Certificate storage cert = certificates[_certificateId];
+        require(msg.sender == cert.holder, "Not certificate holder");
+        require(_verifier != address(0) && _verifier != msg.sender, "Invalid verifier");
+
+        ebool result;
+        if (_field == DisclosureField.Score) {
+            require(_threshold <= 100, "Score must be between 0-100");
+            result = FHE.ge(cert.encryptedScore, _threshold);
+        } else {
+            require(_threshold <= 10, "Level must be between 1-10");
+            result = FHE.ge(cert.encryptedLevel, uint8(_threshold));
+        }
+        FHE.allowThis(result);
+
+        uint256 disclosureId = nextDisclosureId++;
+        disclosures[disclosureId] = Disclosure({
+            certificateId: _certificateId,
+            holder: msg.sender,
+            verifier: _verifier,
+            field: _field,
+            threshold: _threshold,
+            result: result,
+            createdAt: block.timestamp,
+            isRevoked: false
+        });
+
+        emit DisclosureGranted(disclosureId, msg.sender, _verifier, _certificateId, _field, _threshold);
+        return disclosureId;
+    }
+
+    // ACL grants cannot be withdrawn, so revocation only stops answers that have not been claimed yet
+    function revokeDisclosure(uint256 _disclosureId) external {
+        Disclosure storage disclosure = disclosures[_disclosureId];
+        require(msg.sender == disclosure.holder, "Not disclosure holder");
+        require(!disclosure.isRevoked, "Disclosure already revoked");
+
+        disclosure.isRevoked = true;
+        emit DisclosureRevoked(_disclosureId);
+    }
+
+    function getDisclosure(uint256 _disclosureId)
+        external
+        view
+        returns (
+            uint256 certificateId,
+            address holder,
+            address verifier,
+            DisclosureField field,
+            uint64 threshold,
+            uint256 createdAt,
+            bool isRevoked
+        )
+    {
+        Disclosure storage disclosure = disclosures[_disclosureId];
+        require(disclosure.holder != address(0), "Unknown disclosure");
         return (
-            cert.holder,
-            cert.profession,
-            cert.isValid,
-            cert.issueDate,
-            cert.expiryDate,
-            cert.issuer,
-            cert.hashedCredentials
+            disclosure.certificateId,
+            disclosure.holder,
+            disclosure.verifier,
+            disclosure.field,
+            disclosure.threshold,
+            disclosure.createdAt,
+            disclosure.isRevoked
         );
     }
 
+    // The verifier is allowed to decrypt the answer only while the disclosure stands and the certificate is still valid
+    function claimDisclosure(uint256 _disclosureId) external whenNotPaused {
+        Disclosure storage disclosure = disclosures[_disclosureId];
+        require(msg.sender == disclosure.verifier, "Not disclosure verifier");
+        require(!disclosure.isRevoked, "Disclosure revoked");
+
+        Certificate storage cert = certificates[disclosure.certificateId];
+        require(cert.isValid, "Certificate not valid");
+        require(cert.expiryDate > block.timestamp, "Certificate expired");
+        FHE.allow(disclosure.result, msg.sender);
+        emit DisclosureClaimed(_disclosureId, msg.sender, disclosure.result);
+    }
+
+    // Grants live here rather than in the ACL, whose permissions are permanent; verifiers claim the values while a grant lasts
+    function grantAccess(
+        uint256 _certificateId,
+        address _verifier,
+        bool _score,
+        bool _level,
+        uint256 _expiresAt
+    )
+        external
+        whenNotPaused
+        validCertificate(_certificateId)
+    {
+        Certificate storage cert = certificates[_certificateId];
+        require(msg.sender == cert.holder, "Not certificate holder");
+        require(_verifier != address(0) && _verifier != msg.sender, "Invalid verifier");
+        require(_score || _level, "No field selected");
+        require(_expiresAt > block.timestamp, "Expiry must be in the future");
+
+        accessGrants[_certificateId][_verifier] = AccessGrant({
+            score: _score,
+            level: _level,
+            expiresAt: _expiresAt
+        });
+        emit AccessGranted(_certificateId, msg.sender, _verifier, _score, _level, _expiresAt);
+    }
+
+    function revokeAccess(uint256 _certificateId, address _verifier) external {
+        require(msg.sender == certificates[_certificateId].holder, "Not certificate holder");
+        require(accessGrants[_certificateId][_verifier].expiresAt != 0, "No access granted");
+
+        delete accessGrants[_certificateId][_verifier];
+        emit AccessRevoked(_certificateId, msg.sender, _verifier);
+    }
+
+    // Lets the caller decrypt each granted value. The grant is only checked here: once claimed, a value
+    // stays decryptable by that verifier after the grant expires or is revoked
+    function claimAccess(uint256 _certificateId) external whenNotPaused validCertificate(_certificateId) {
+        AccessGrant storage grant = accessGrants[_certificateId][msg.sender];
+        require(grant.expiresAt > block.timestamp, "Access expired or revoked");
+
+        Certificate storage cert = certificates[_certificateId];
+        euint64 score;
+        euint8 level;
+        if (grant.score) {
+            score = cert.encryptedScore;
+            FHE.allow(score, msg.sender);
+        }
+        if (grant.level) {
+            level = cert.encryptedLevel;
+            FHE.allow(level, msg.sender);
+        }
+        emit AccessClaimed(_certificateId, msg.sender, score, level);
+    }
+
     function getHolderCertificates(address _holder)
         external
         view
@@ -256,61 +767,83 @@ contract PrivacyProfessionalCertificate is SepoliaConfig {
         return nextRequestId - 1;
     }
 
+    function getProfessions() external view returns (string[] memory) {
+        return professions;
+    }
+
     function getProfessionRequirements(string memory _profession)
         external
         view
-        returns (uint256 minScore, uint8 minLevel)
+        returns (uint256 minScore, uint8 minLevel, uint256 validityDays)
     {
         return (
             minimumScoreRequirement[_profession],
-            minimumLevelRequirement[_profession]
+            minimumLevelRequirement[_profession],
+            professionValidityDays[_profession]
         );
     }
 
-    // Function to extend certificate validity (only by authorized issuers)
-    function extendCertificateValidity(uint256 _certificateId, uint256 _additionalDays)
+    // Function to extend certificate validity (only by authorized issuers); also settles a pending renewal
+    function extendCertificateValidity(
+        uint256 _certificateId,
+        uint256 _additionalDays,
+        string memory _reason
+    )
         external
-        onlyAuthorizedIssuer
+        whenNotPaused
         validCertificate(_certificateId)
+        onlyIssuerFor(certificates[_certificateId].profession)
     {
+        require(_additionalDays > 0, "Additional days required");
+        require(bytes(_reason).length > 0, "Reason required");
+
         certificates[_certificateId].expiryDate += _additionalDays * 1 days;
+        delete renewalRequested[_certificateId];
+        emit CertificateValidityExtended(_certificateId, certificates[_certificateId].expiryDate, _reason);
     }
 
-    // Emergency function to pause all certificates (only owner)
-    function emergencyPause() external onlyOwner {
-        // Implementation for emergency pause functionality
-        // This could set a global pause state
+    // Emergency stop: freezes requests, processing, revocation and extension (only owner)
+    function emergencyPause(string memory _reason) external onlyOwner {
+        require(!paused, "Already paused");
+        require(bytes(_reason).length > 0, "Reason required");
+
+        paused = true;
+        emit ContractPaused(msg.sender, _reason);
     }
 
-    // Function to get certificate holder's encrypted score (only accessible by holder or authorized parties)
+    function unpause() external onlyOwner {
+        require(paused, "Not paused");
+
+        paused = false;
+        emit ContractUnpaused(msg.sender);
+    }
+
+    // Function to get certificate holder's encrypted score (holder or an issuer for the profession)
     function getEncryptedScore(uint256 _certificateId)
         external
         view
         validCertificate(_certificateId)
         returns (euint64)
     {
-        require(
-            msg.sender == certificates[_certificateId].holder ||
-            authorizedIssuers[msg.sender] ||
-            msg.sender == owner,
-            "Not authorized to view score"
-        );
+        require(_canViewEncrypted(_certificateId), "Not authorized to view score");
         return certificates[_certificateId].encryptedScore;
     }
 
-    // Function to get certificate holder's encrypted level (only accessible by holder or authorized parties)
+    // Function to get certificate holder's encrypted level (holder or an issuer for the profession)
     function getEncryptedLevel(uint256 _certificateId)
         external
         view
         validCertificate(_certificateId)
         returns (euint8)
     {
-        require(
-            msg.sender == certificates[_certificateId].holder ||
-            authorizedIssuers[msg.sender] ||
-            msg.sender == owner,
-            "Not authorized to view level"
-        );
+        require(_canViewEncrypted(_certificateId), "Not authorized to view level");
         return certificates[_certificateId].encryptedLevel;
     }
+
+    // Verifiers with an access grant go through claimAccess instead
+    function _canViewEncrypted(uint256 _certificateId) private view returns (bool) {
+        Certificate storage cert = certificates[_certificateId];
+        return msg.sender == cert.holder ||
+            (authorizedIssuers[msg.sender] && issuerProfessions[msg.sender][cert.profession]);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { ethers } from 'ethers';
+import App from './App';
+import { CertificateStatus, RequestStatus } from './types';
+import { SEPOLIA_CHAIN_ID } from './networks';
+import { createMockEthereum, MockEthereum } from './test/mockEthereum';
+
+// Stands in for the public RPC behind read-only views, so tests never touch the network
+const readNode = vi.hoisted(() => ({ current: null as MockEthereum | null }));
+
+// Each test deploys to its own address, so its event index never holds what earlier tests left syncing
+const sepoliaAddress = vi.hoisted(() => ({ current: '' }));
+
+// The committed manifest only holds real deployments, so the tests bring their own
+vi.mock('./deployments.json', () => ({
+  default: {
+    get '11155111'() {
+      return {
+        network: 'sepolia',
+        chainId: 11155111,
+        address: sepoliaAddress.current,
+        abi: [],
+        blockNumber: 100
+      };
+    }
+  }
+}));
+
+vi.mock('./contract', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./contract')>();
+  return {
+    ...actual,
+    getReadContract: () => actual.createContract(new ethers.BrowserProvider(readNode.current!))
+  };
+});
+
+// Encryption needs the relayer, and evidence encryption has its own tests
+vi.mock('./fhevm', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./fhevm')>(),
+  encryptCertificationInput: async () => ({
+    scoreHandle: ethers.zeroPadValue('0x01', 32),
+    levelHandle: ethers.zeroPadValue('0x02', 32),
+    inputProof: '0x00'
+  })
+}));
+
+vi.mock('./evidence', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./evidence')>(),
+  storeEvidence: async (_plaintext: string, recipient: { address: string }) => ({
+    contentHash: ethers.id('evidence'),
+    uri: 'local://evidence',
+    recipient: recipient.address
+  })
+}));
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const ISSUER = '0x2222222222222222222222222222222222222222';
+const APPLICANT = '0x4444444444444444444444444444444444444444';
+const PROFESSION = 'Software Engineer';
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const issuerInfo = ['Acme Certification Board', '', true, 1_700_000_000];
+
+const pendingRequest = (id: bigint) => [
+  APPLICANT,
+  PROFESSION,
+  ethers.ZeroHash,
+  ethers.ZeroHash,
+  false,
+  false,
+  1_700_000_000 + Number(id),
+  ethers.id(`evidence-${id}`),
+  `local://evidence-${id}`,
+  ISSUER
+];
+
+const certificateInfo = {
+  holder: ACCOUNT,
+  profession: 'Software Engineer',
+  isValid: true,
+  issueDate: 1_700_000_000,
+  expiryDate: 4_000_000_000,
+  issuer: ISSUER,
+  issuerOrganization: 'Acme Certification Board',
+  issuerActive: true,
+  credentialHash: ethers.id('credential'),
+  renewalRequested: false
+};
+
+// A wallet that already exposes an account is connected on load
+const connectWallet = async (wallet: MockEthereum) => {
+  window.ethereum = wallet;
+  render(<App />);
+  await screen.findByText('Successfully connected to Sepolia! ✅');
+};
+
+let deploymentCount = 0;
+
+describe('App', () => {
+  beforeEach(() => {
+    readNode.current = createMockEthereum({ chainId: SEPOLIA_CHAIN_ID });
+    sepoliaAddress.current = ethers.zeroPadValue(ethers.toBeHex(++deploymentCount), 20);
+  });
+
+  it('starts in read-only mode without a wallet', () => {
+    render(<App />);
+
+    expect(screen.getByText('Read-only Mode')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Connect MetaMask' })).toBeTruthy();
+    expect(screen.getByText('Verify Certificate', { selector: 'h3' })).toBeTruthy();
+  });
+
+  it('verifies a certificate by ID without a wallet', async () => {
+    readNode.current!.calls.lookupCertificate = () => [CertificateStatus.Valid, certificateInfo];
+    render(<App />);
+
+    fireEvent.change(screen.getByPlaceholderText('Enter certificate ID to verify'), { target: { value: '1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify Certificate' }));
+
+    await screen.findByText('Certificate Details');
+    expect(screen.getByText('Software Engineer')).toBeTruthy();
+    expect(screen.getByText('Acme Certification Board')).toBeTruthy();
+    expect(screen.getByText('Verified, still authorized')).toBeTruthy();
+  });
+
+  it('reports certificate IDs that were never issued', async () => {
+    render(<App />);
+
+    fireEvent.change(screen.getByPlaceholderText('Enter certificate ID to verify'), { target: { value: '7' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify Certificate' }));
+
+    await screen.findByText('Certificate #7 was never issued.');
+  });
+
+  it('connects the wallet and shows the holder dashboard', async () => {
+    const wallet = createMockEthereum({ account: ACCOUNT, chainId: SEPOLIA_CHAIN_ID });
+    wallet.selectedAddress = null;
+    window.ethereum = wallet;
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Connect MetaMask' }));
+
+    await screen.findByText('Successfully connected to Sepolia! ✅');
+
+    expect(screen.getByText('Connected to Sepolia')).toBeTruthy();
+    expect(screen.getByText('My Certificates')).toBeTruthy();
+    expect(screen.queryByText('Owner Console')).toBeNull();
+  });
+
+  it('asks the wallet to switch when it is on a chain without a deployment', async () => {
+    const wallet = createMockEthereum({ account: ACCOUNT, chainId: 1 });
+    await connectWallet(wallet);
+
+    expect(wallet.requests).toContainEqual({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: '0xaa36a7' }]
+    });
+  });
+
+  it('unlocks the owner console for the contract owner', async () => {
+    await connectWallet(createMockEthereum({
+      account: ACCOUNT,
+      chainId: SEPOLIA_CHAIN_ID,
+      calls: { owner: () => ACCOUNT }
+    }));
+
+    expect(screen.getByText('Owner Console')).toBeTruthy();
+  });
+
+  it('shows the pause banner while the registry is paused', async () => {
+    readNode.current!.calls.paused = () => true;
+    render(<App />);
+
+    await screen.findByText('⚠️ The certificate registry is paused.');
+  });
+
+  it('disconnects when the wallet moves to an unsupported chain', async () => {
+    const wallet = createMockEthereum({ account: ACCOUNT, chainId: SEPOLIA_CHAIN_ID });
+    await connectWallet(wallet);
+
+    wallet.emit('chainChanged', '0x1');
+
+    await waitFor(() => expect(screen.getByText(/No certificate contract on chain 1/)).toBeTruthy());
+    expect(screen.getByText('Read-only Mode')).toBeTruthy();
+  });
+
+  it('submits an encrypted certification request to the chosen issuer', async () => {
+    const wallet = createMockEthereum({
+      account: ACCOUNT,
+      chainId: SEPOLIA_CHAIN_ID,
+      calls: {
+        getProfessions: () => [PROFESSION],
+        authorizedIssuers: (address: string) => sameAddress(address, ISSUER),
+        evidenceKeys: (address: string) => (sameAddress(address, ISSUER) ? ethers.zeroPadValue('0x02', 33) : '0x'),
+        issuerRegistry: () => issuerInfo
+      },
+      events: [{ name: 'IssuerProfessionUpdated', args: [ISSUER, PROFESSION, true] }],
+      sends: {
+        requestCertification: () => [{ name: 'CertificationRequested', args: [7, ACCOUNT, PROFESSION] }]
+      }
+    });
+    // The read-only RPC serves the same chain, and both index the same deployment
+    readNode.current = wallet;
+    await connectWallet(wallet);
+
+    fireEvent.change(screen.getByDisplayValue('Select Profession'), { target: { value: PROFESSION } });
+    await screen.findByRole('option', { name: /Acme Certification Board/ });
+    fireEvent.change(screen.getByDisplayValue('Select Issuer'), { target: { value: ISSUER } });
+    fireEvent.change(screen.getByPlaceholderText('Enter your professional score'), { target: { value: '85' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter your professional level'), { target: { value: '6' } });
+    fireEvent.change(screen.getByPlaceholderText('Provide links or descriptions of your professional work...'), {
+      target: { value: 'Portfolio at example.com' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Request' }));
+
+    await screen.findByText('Certification request #7 submitted successfully!');
+    expect(wallet.sent).toHaveLength(1);
+    const [{ name, args }] = wallet.sent;
+    expect(name).toBe('requestCertification');
+    expect(args[0]).toBe(PROFESSION);
+    expect(args[4].uri).toBe('local://evidence');
+    expect(sameAddress(args[4].recipient, ISSUER)).toBe(true);
+  });
+
+  it('lets an issuer approve one queued request and reject another', async () => {
+    const wallet = createMockEthereum({
+      account: ISSUER,
+      chainId: SEPOLIA_CHAIN_ID,
+      calls: {
+        getProfessions: () => [PROFESSION],
+        authorizedIssuers: (address: string) => sameAddress(address, ISSUER),
+        issuerProfessions: () => true,
+        issuerRegistry: () => issuerInfo,
+        certificationRequests: pendingRequest,
+        requestStatus: () => RequestStatus.Pending
+      },
+      events: [
+        { name: 'CertificationRequested', args: [1, APPLICANT, PROFESSION] },
+        { name: 'CertificationRequested', args: [2, APPLICANT, PROFESSION] }
+      ],
+      sends: {
+        processCertificationRequest: (id: bigint) => [{ name: 'CertificationDecisionRequested', args: [id, 1] }],
+        rejectCertificationRequest: (id: bigint, reason: string) => [{ name: 'CertificationRejected', args: [id, reason] }]
+      }
+    });
+    // The read-only RPC serves the same chain, and both index the same deployment
+    readNode.current = wallet;
+    await connectWallet(wallet);
+
+    const request = async (id: number) =>
+      (await screen.findByText(`Request #${id}`, { selector: '.certificate-title' })).closest('.certificate-item') as HTMLElement;
+
+    fireEvent.click(within(await request(1)).getByRole('button', { name: 'Approve' }));
+    await screen.findByText('Request #1 submitted for encrypted evaluation');
+
+    fireEvent.click(within(await request(2)).getByRole('button', { name: 'Reject' }));
+    fireEvent.change(screen.getByPlaceholderText('Reason for rejection'), { target: { value: 'Evidence incomplete' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Reject' }));
+    await screen.findByText('Request #2 rejected');
+
+    expect(wallet.sent.map(({ name, args }) => [name, ...args])).toEqual([
+      ['processCertificationRequest', 1n],
+      ['rejectCertificationRequest', 2n, 'Evidence incomplete']
+    ]);
+  });
+});
@@ -1,74 +1,130 @@
 import React, { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import { encryptCertificationInput, userDecrypt, clearDecryptionSession } from './fhevm';
+import {
+  CertificateContract,
+  createContract,
+  getActiveChainId,
+  getActiveNetwork,
+  setActiveChain,
+  isSupportedChain,
+  supportedNetworks,
+  getReadContract,
+  getContractDeployment,
+  lookupCertificate,
+  lookupCertificateBatch,
+  fetchPauseState
+} from './contract';
+import { DEFAULT_CHAIN_ID, getNetwork, toHexChainId } from './networks';
+import { syncEventIndex, getHolderCertificateIds } from './indexer';
+import { EvidenceRecipient, getEvidenceRecipients, storeEvidence } from './evidence';
+import { sendTransaction, describeTxError, resumePendingTransactions, useTransactions } from './transactions';
+import { RequestStatus, REQUEST_STATUS_LABELS, Roles, Certificate, CertificateStatus, PauseState } from './types';
+import RequestQueue from './components/RequestQueue';
+import CertificateManager from './components/CertificateManager';
+import MyRequests from './components/MyRequests';
+import EvidenceKeySetup from './components/EvidenceKeySetup';
+import DisclosureManager from './components/DisclosureManager';
+import VerifierDisclosures from './components/VerifierDisclosures';
+import ShareWithVerifier from './components/ShareWithVerifier';
+import AccessGrants from './components/AccessGrants';
+import VerifierGrants from './components/VerifierGrants';
+import OwnerConsole from './components/OwnerConsole';
+import IssuerAdminConsole from './components/IssuerAdminConsole';
+import ShareCertificate from './components/ShareCertificate';
+import ExportCredential from './components/ExportCredential';
+import PrintableCertificate from './components/PrintableCertificate';
+import VerifyCredential from './components/VerifyCredential';
+import CertificateStatusNotice from './components/CertificateStatusNotice';
+import TransactionHistory from './components/TransactionHistory';
 import './App.css';
 
-const CONTRACT_ADDRESS = "0xc9B0CD3F8b1fEB158c66d9a5266D054EE89aF153";
-const SEPOLIA_CHAIN_ID = "0xaa36a7"; // 11155111 in hex
-
-const CONTRACT_ABI = [
-  "function requestCertification(string memory _profession, uint64 _score, uint8 _level, string memory _evidence) external",
-  "function processCertificationRequest(uint256 _requestId, string memory _issuerName) external",
-  "function verifyCertificate(uint256 _certificateId) external view returns (address holder, string memory profession, bool isValid, uint256 issueDate, uint256 expiryDate, string memory issuer, bytes32 credentialHash)",
-  "function getHolderCertificates(address _holder) external view returns (uint256[] memory)",
-  "function getCertificateCount() external view returns (uint256)",
-  "function getRequestCount() external view returns (uint256)",
-  "function getProfessionRequirements(string memory _profession) external view returns (uint256 minScore, uint8 minLevel)",
-  "function authorizedIssuers(address) external view returns (bool)",
-  "function owner() external view returns (address)",
-  "event CertificateIssued(uint256 indexed certificateId, address indexed holder, string profession)",
-  "event CertificationRequested(uint256 indexed requestId, address indexed applicant, string profession)",
-  "event CertificationApproved(uint256 indexed requestId, uint256 indexed certificateId)"
-];
+const REQUEST_STATUS_STEPS = [
+  RequestStatus.Pending,
+  RequestStatus.AwaitingDecryption,
+  RequestStatus.Approved,
+  RequestStatus.Rejected
+].map(status => ({ status, label: REQUEST_STATUS_LABELS[status] }));
+
+// A request ends either approved or rejected, so only one terminal step is shown
+const statusStepsFor = (status: RequestStatus) =>
+  REQUEST_STATUS_STEPS.filter(step =>
+    step.status !== (status === RequestStatus.Rejected ? RequestStatus.Approved : RequestStatus.Rejected)
+  );
+
+const STATUS_POLL_INTERVAL = 5000;
 
 interface WalletState {
   isConnected: boolean;
   account: string;
-  network: string;
   balance: string;
-  isAdmin: boolean;
+  roles: Roles;
 }
 
-interface Certificate {
-  id: number;
-  holder: string;
-  profession: string;
-  isValid: boolean;
-  issueDate: number;
-  expiryDate: number;
-  issuer: string;
+const NO_ROLES: Roles = {
+  isOwner: false,
+  isIssuerAdmin: false,
+  isIssuer: false,
+  issuerOrganization: '',
+  issuerProfessions: []
+};
+
+interface RevealedValues {
+  score: number;
+  level: number;
 }
 
 function App() {
   const [walletState, setWalletState] = useState<WalletState>({
     isConnected: false,
     account: '',
-    network: '',
     balance: '0',
-    isAdmin: false
+    roles: NO_ROLES
   });
 
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.JsonRpcSigner | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [contract, setContract] = useState<CertificateContract | null>(null);
   const [loading, setLoading] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [lookupAddress, setLookupAddress] = useState('');
+  const [lookupCertificates, setLookupCertificates] = useState<Certificate[] | null>(null);
+  const [professions, setProfessions] = useState<string[]>([]);
+  const [sharingId, setSharingId] = useState<number | null>(null);
+  const [grantingId, setGrantingId] = useState<number | null>(null);
+  const [printingId, setPrintingId] = useState<number | null>(null);
+  const [revealedValues, setRevealedValues] = useState<Record<number, RevealedValues>>({});
+  const [pauseState, setPauseState] = useState<PauseState>({ paused: false, reason: '' });
 
   // Form states
   const [profession, setProfession] = useState('');
   const [score, setScore] = useState('');
   const [level, setLevel] = useState('');
   const [evidence, setEvidence] = useState('');
+  const [evidenceRecipients, setEvidenceRecipients] = useState<EvidenceRecipient[]>([]);
+  const [evidenceRecipient, setEvidenceRecipient] = useState('');
+  const [demoModeEnabled, setDemoModeEnabled] = useState(false);
+  const [submitPlaintext, setSubmitPlaintext] = useState(false);
   const [certificateId, setCertificateId] = useState('');
   const [requestId, setRequestId] = useState('');
-  const [issuerName, setIssuerName] = useState('');
-  const [verifiedCert, setVerifiedCert] = useState<Certificate | null>(null);
+  const [trackedRequest, setTrackedRequest] = useState<{ id: number; status: RequestStatus } | null>(null);
+  const [verifyResult, setVerifyResult] = useState<{ id: number; certificate: Certificate | null } | null>(null);
+  const { isPending } = useTransactions(walletState.account);
 
   useEffect(() => {
+    // Until a deployment is recorded for the default chain there is nothing to read
+    if (isSupportedChain(getActiveChainId())) loadPauseState(getReadContract());
     checkWalletConnection();
   }, []);
 
+  // Decrypted values belong to the account that revealed them
+  useEffect(() => {
+    setRevealedValues({});
+    clearDecryptionSession();
+  }, [walletState.account]);
+
   const checkWalletConnection = async () => {
     if (typeof window.ethereum !== 'undefined' && window.ethereum.selectedAddress) {
       await connectWallet();
@@ -89,36 +145,46 @@ function App() {
       // Step 2: Request account access
       await window.ethereum.request({ method: 'eth_requestAccounts' });
 
-      // Step 3: Create provider and signer
+      // Step 3: Stay on the wallet's chain if it has a deployment, otherwise switch to the default (or first deployed) one
+      let chainId = Number(await window.ethereum.request({ method: 'eth_chainId' }));
+      if (supportedNetworks().length === 0) {
+        throw new Error('No contract deployment is recorded yet. Run `npm run deploy` to add one to deployments.json.');
+      }
+      if (!isSupportedChain(chainId)) {
+        chainId = isSupportedChain(DEFAULT_CHAIN_ID) ? DEFAULT_CHAIN_ID : supportedNetworks()[0].chainId;
+        await switchNetwork(chainId);
+      }
+      setActiveChain(chainId);
+      const network = getActiveNetwork();
+
+      // Step 4: Create provider and signer once the chain is settled
       const newProvider = new ethers.BrowserProvider(window.ethereum);
       const newSigner = await newProvider.getSigner();
       const userAddress = await newSigner.getAddress();
 
-      // Step 4: Check and switch to Sepolia if needed
-      const network = await newProvider.getNetwork();
-      if (network.chainId.toString() !== "11155111") {
-        await switchToSepolia();
-      }
-
-      // Step 5: Initialize contract
-      const newContract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, newSigner);
+      // Step 5: Initialize contract from the deployments manifest
+      const newContract = createContract(newSigner);
 
       // Step 6: Update state
       const balance = await newProvider.getBalance(userAddress);
-      const isAdmin = await checkAdminStatus(newContract, userAddress);
+      const registeredProfessions = await loadProfessions(newContract);
+      const roles = await checkRoles(newContract, userAddress, registeredProfessions);
+      const demoMode = await checkDemoMode(newContract);
+      await loadPauseState(newContract);
+      resumePendingTransactions(newProvider, chainId);
 
       setProvider(newProvider);
       setSigner(newSigner);
       setContract(newContract);
+      setDemoModeEnabled(demoMode);
       setWalletState({
         isConnected: true,
         account: userAddress,
-        network: `Sepolia (${network.chainId})`,
         balance: ethers.formatEther(balance).slice(0, 6),
-        isAdmin
+        roles
       });
 
-      setSuccess('Successfully connected to Sepolia testnet! ✅');
+      setSuccess(`Successfully connected to ${network.name}! ✅`);
 
     } catch (error: any) {
       console.error('Connection error:', error);
@@ -129,26 +195,26 @@ function App() {
     }
   };
 
-  const switchToSepolia = async () => {
+  const switchNetwork = async (chainId: number) => {
+    if (!window.ethereum) return;
+    const network = getNetwork(chainId);
+    if (!network) throw new Error(`Chain ${chainId} is not in the network registry`);
+
     try {
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: SEPOLIA_CHAIN_ID }],
+        params: [{ chainId: toHexChainId(chainId) }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
         await window.ethereum.request({
           method: 'wallet_addEthereumChain',
           params: [{
-            chainId: SEPOLIA_CHAIN_ID,
-            chainName: 'Sepolia Test Network',
-            nativeCurrency: {
-              name: 'SepoliaETH',
-              symbol: 'ETH',
-              decimals: 18
-            },
-            rpcUrls: ['https://sepolia.gateway.tenderly.co'],
-            blockExplorerUrls: ['https://sepolia.etherscan.io/']
+            chainId: toHexChainId(chainId),
+            chainName: network.name,
+            nativeCurrency: network.currency,
+            rpcUrls: [network.rpcUrl],
+            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
           }]
         });
       } else {
@@ -157,20 +223,99 @@ function App() {
     }
   };
 
-  const checkAdminStatus = async (contract: ethers.Contract, address: string): Promise<boolean> => {
+  const handleNetworkSelect = async (chainId: number) => {
+    try {
+      setError('');
+      // The wallet's chainChanged event rebinds the contract
+      await switchNetwork(chainId);
+    } catch (error: any) {
+      console.error('Network switch error:', error);
+      setError(`Switching network failed: ${error.message}`);
+    }
+  };
+
+  const checkRoles = async (
+    contract: CertificateContract,
+    address: string,
+    registeredProfessions: string[]
+  ): Promise<Roles> => {
+    try {
+      const [owner, isIssuerAdmin, isAuthorized] = await Promise.all([
+        contract.owner(),
+        contract.issuerAdmins(address),
+        contract.authorizedIssuers(address)
+      ]);
+
+      let issuerProfessions: string[] = [];
+      let issuerOrganization = '';
+      if (isAuthorized) {
+        issuerOrganization = (await contract.issuerRegistry(address)).organization;
+        const scopes: boolean[] = await Promise.all(
+          registeredProfessions.map(name => contract.issuerProfessions(address, name))
+        );
+        issuerProfessions = registeredProfessions.filter((_, i) => scopes[i]);
+      }
+
+      return {
+        isOwner: address.toLowerCase() === owner.toLowerCase(),
+        isIssuerAdmin,
+        isIssuer: isAuthorized && issuerProfessions.length > 0,
+        issuerOrganization,
+        issuerProfessions
+      };
+    } catch (error) {
+      console.error('Role check error:', error);
+      return NO_ROLES;
+    }
+  };
+
+  const loadProfessions = async (contract: CertificateContract): Promise<string[]> => {
     try {
-      const isAuthorized = await contract.authorizedIssuers(address);
-      const owner = await contract.owner();
-      return isAuthorized || address.toLowerCase() === owner.toLowerCase();
+      const names: string[] = [...await contract.getProfessions()];
+      setProfessions(names);
+      return names;
     } catch (error) {
-      console.error('Admin check error:', error);
+      console.error('Profession load error:', error);
+      return [];
+    }
+  };
+
+  const checkDemoMode = async (contract: CertificateContract): Promise<boolean> => {
+    try {
+      return await contract.demoMode();
+    } catch (error) {
+      console.error('Demo mode check error:', error);
       return false;
     }
   };
 
+  const loadPauseState = async (contract: CertificateContract) => {
+    try {
+      setPauseState(await fetchPauseState(contract));
+    } catch (error) {
+      console.error('Pause state error:', error);
+    }
+  };
+
+  // Evidence goes to one issuer of the chosen profession, so the picker follows the profession
+  useEffect(() => {
+    setEvidenceRecipient('');
+    if (!contract || !profession) {
+      setEvidenceRecipients([]);
+      return;
+    }
+
+    getEvidenceRecipients(contract, profession)
+      .then(setEvidenceRecipients)
+      .catch((error) => {
+        console.error('Evidence recipients error:', error);
+        setEvidenceRecipients([]);
+      });
+  }, [contract, profession]);
+
   const handleCertificationRequest = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!contract || !walletState.isConnected) {
+    if (!contract || !provider || !signer || !walletState.isConnected) {
       setError('Please connect your wallet first');
       return;
     }
@@ -180,59 +325,105 @@ function App() {
       setError('');
       setSuccess('');
 
-      const tx = await contract.requestCertification(profession, parseInt(score), parseInt(level), evidence);
-      await tx.wait();
+      const recipient = evidenceRecipients.find(r => r.address === evidenceRecipient);
+      if (!recipient) throw new Error('Choose the issuer who should review your evidence');
+
+      // Only the content hash and location go on-chain; the evidence itself is encrypted for the issuer
+      const evidenceRef = await storeEvidence(evidence, recipient);
+      const request = { label: `Request ${profession} certification`, key: 'request' };
+
+      let receipt;
+      if (demoModeEnabled && submitPlaintext) {
+        // Demo mode only: score and level are visible in calldata
+        setLoading('');
+        receipt = await sendTransaction(
+          contract,
+          request,
+          contract.requestCertificationDemo,
+          profession,
+          parseInt(score),
+          parseInt(level),
+          evidenceRef
+        );
+      } else {
+        const network = await provider.getNetwork();
+        const encrypted = await encryptCertificationInput(
+          Number(network.chainId),
+          await contract.getAddress(),
+          await signer.getAddress(),
+          parseInt(score),
+          parseInt(level)
+        );
+        // Encryption is done; from here the transaction manager tracks the request
+        setLoading('');
+        receipt = await sendTransaction(
+          contract,
+          request,
+          contract.requestCertification,
+          profession,
+          encrypted.scoreHandle,
+          encrypted.levelHandle,
+          encrypted.inputProof,
+          evidenceRef
+        );
+      }
 
-      setSuccess('Certification request submitted successfully!');
+      // Surface the new request ID so the applicant can follow it in My Requests
+      const requested = receipt.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'CertificationRequested');
+      setSuccess(requested
+        ? `Certification request #${requested.args.requestId} submitted successfully!`
+        : 'Certification request submitted successfully!');
       setProfession('');
       setScore('');
       setLevel('');
       setEvidence('');
+      setEvidenceRecipient('');
+      setSubmitPlaintext(false);
     } catch (error: any) {
       console.error('Request error:', error);
-      setError(`Request failed: ${error.message}`);
+      setError(`Request failed: ${describeTxError(error)}`);
     } finally {
-      setLoading('');
+      setLoading(current => (current === 'request' ? '' : current));
     }
   };
 
+  // View calls go through the read-only provider so they work without a wallet
   const handleVerifyCertificate = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!contract || !walletState.isConnected) {
-      setError('Please connect your wallet first');
-      return;
-    }
 
     try {
       setLoading('verify');
       setError('');
       setSuccess('');
 
-      const result = await contract.verifyCertificate(parseInt(certificateId));
-
-      const cert: Certificate = {
-        id: parseInt(certificateId),
-        holder: result.holder,
-        profession: result.profession,
-        isValid: result.isValid,
-        issueDate: Number(result.issueDate),
-        expiryDate: Number(result.expiryDate),
-        issuer: result.issuer
-      };
+      const id = parseInt(certificateId);
+      const cert = await lookupCertificate(getReadContract(), id);
 
-      setVerifiedCert(cert);
-      setSuccess('Certificate verified successfully!');
+      setVerifyResult({ id, certificate: cert });
+      if (cert?.status === CertificateStatus.Valid) {
+        setSuccess('Certificate verified successfully!');
+      }
     } catch (error: any) {
       console.error('Verify error:', error);
       setError(`Verification failed: ${error.message}`);
-      setVerifiedCert(null);
+      setVerifyResult(null);
     } finally {
       setLoading('');
     }
   };
 
+  // Certificate IDs come from the local event index; details are fetched in batches
+  const fetchHolderCertificates = async (holder: string): Promise<Certificate[]> => {
+    const readContract = getReadContract();
+    const deployment = getContractDeployment(readContract);
+    await syncEventIndex(deployment, readContract);
+    return lookupCertificateBatch(readContract, await getHolderCertificateIds(deployment, holder));
+  };
+
   const loadMyCertificates = async () => {
-    if (!contract || !walletState.isConnected) {
+    if (!walletState.isConnected) {
       setError('Please connect your wallet first');
       return;
     }
@@ -241,27 +432,7 @@ function App() {
       setLoading('certificates');
       setError('');
 
-      const certificateIds = await contract.getHolderCertificates(walletState.account);
-      const certs: Certificate[] = [];
-
-      for (const id of certificateIds) {
-        try {
-          const cert = await contract.verifyCertificate(id);
-          certs.push({
-            id: Number(id),
-            holder: cert.holder,
-            profession: cert.profession,
-            isValid: cert.isValid,
-            issueDate: Number(cert.issueDate),
-            expiryDate: Number(cert.expiryDate),
-            issuer: cert.issuer
-          });
-        } catch (error) {
-          console.error(`Error loading certificate ${id}:`, error);
-        }
-      }
-
-      setCertificates(certs);
+      setCertificates(await fetchHolderCertificates(walletState.account));
     } catch (error: any) {
       console.error('Load certificates error:', error);
       setError('Error loading certificates');
@@ -270,6 +441,84 @@ function App() {
     }
   };
 
+  const handleLookupHolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(lookupAddress)) {
+      setError('Please enter a valid holder address');
+      return;
+    }
+
+    try {
+      setLoading('lookup');
+      setError('');
+
+      setLookupCertificates(await fetchHolderCertificates(lookupAddress));
+    } catch (error: any) {
+      console.error('Holder lookup error:', error);
+      setError(`Holder lookup failed: ${error.message}`);
+      setLookupCertificates(null);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleRevealCertificate = async (certId: number) => {
+    if (!contract || !provider || !signer || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setLoading(`reveal-${certId}`);
+      setError('');
+
+      const scoreHandle: string = await contract.getEncryptedScore(certId);
+      const levelHandle: string = await contract.getEncryptedLevel(certId);
+      const network = await provider.getNetwork();
+      const [decryptedScore, decryptedLevel] = await userDecrypt(
+        Number(network.chainId),
+        await contract.getAddress(),
+        signer,
+        [scoreHandle, levelHandle]
+      );
+
+      setRevealedValues(prev => ({
+        ...prev,
+        [certId]: { score: Number(decryptedScore), level: Number(decryptedLevel) }
+      }));
+    } catch (error: any) {
+      console.error('Reveal error:', error);
+      setError(`Private reveal failed: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleRequestRenewal = async (certId: number) => {
+    if (!contract || !walletState.isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    try {
+      setError('');
+      setSuccess('');
+
+      await sendTransaction(
+        contract,
+        { label: `Request renewal of certificate #${certId}`, key: `renew-${certId}` },
+        contract.requestRenewal,
+        certId
+      );
+
+      setSuccess(`Renewal requested for certificate #${certId}`);
+      setCertificates(await fetchHolderCertificates(walletState.account));
+    } catch (error: any) {
+      console.error('Renewal request error:', error);
+      setError(`Renewal request failed: ${describeTxError(error)}`);
+    }
+  };
+
   const handleProcessRequest = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!contract || !walletState.isConnected) {
@@ -278,27 +527,48 @@ function App() {
     }
 
     try {
-      setLoading('admin');
       setError('');
       setSuccess('');
 
-      const tx = await contract.processCertificationRequest(parseInt(requestId), issuerName);
-      await tx.wait();
+      const id = parseInt(requestId);
+      await sendTransaction(
+        contract,
+        { label: `Process request #${id}`, key: 'process' },
+        contract.processCertificationRequest,
+        id
+      );
 
-      setSuccess('Request processed successfully!');
+      setTrackedRequest({ id, status: RequestStatus.AwaitingDecryption });
+      setSuccess('Request submitted for encrypted evaluation. Waiting for the decision to be decrypted...');
       setRequestId('');
-      setIssuerName('');
     } catch (error: any) {
       console.error('Process error:', error);
-      setError(`Processing failed: ${error.message}`);
-    } finally {
-      setLoading('');
+      setError(`Processing failed: ${describeTxError(error)}`);
     }
   };
 
+  // Poll the tracked request until the decryption oracle has delivered the decision
+  useEffect(() => {
+    if (!contract || !trackedRequest || trackedRequest.status >= RequestStatus.Approved) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const status = Number(await contract.requestStatus(trackedRequest.id)) as RequestStatus;
+        if (status !== trackedRequest.status) {
+          setTrackedRequest({ id: trackedRequest.id, status });
+        }
+      } catch (error) {
+        console.error('Request status error:', error);
+      }
+    }, STATUS_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [contract, trackedRequest]);
+
   // Handle account and network changes
   useEffect(() => {
-    if (window.ethereum) {
+    const ethereum = window.ethereum;
+    if (ethereum) {
       const handleAccountsChanged = (accounts: string[]) => {
         if (accounts.length === 0) {
           setWalletState(prev => ({ ...prev, isConnected: false }));
@@ -307,25 +577,88 @@ function App() {
         }
       };
 
-      const handleChainChanged = (chainId: string) => {
-        if (chainId !== SEPOLIA_CHAIN_ID) {
-          setError('Please switch to Sepolia testnet');
+      const handleChainChanged = (chainIdHex: string) => {
+        const chainId = Number(chainIdHex);
+
+        // Everything loaded so far belongs to the previous chain's contract
+        setContract(null);
+        setCertificates([]);
+        setLookupCertificates(null);
+        setVerifyResult(null);
+        setTrackedRequest(null);
+        setRevealedValues({});
+        clearDecryptionSession();
+
+        if (!isSupportedChain(chainId)) {
+          setError(`No certificate contract on chain ${chainId}. Switch to ${supportedNetworks().map(n => n.name).join(' or ')}.`);
           setWalletState(prev => ({ ...prev, isConnected: false }));
-        } else {
-          window.location.reload();
+          return;
         }
+        connectWallet();
       };
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+      ethereum.on('accountsChanged', handleAccountsChanged);
+      ethereum.on('chainChanged', handleChainChanged);
 
       return () => {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
+        ethereum.removeListener('accountsChanged', handleAccountsChanged);
+        ethereum.removeListener('chainChanged', handleChainChanged);
       };
     }
   }, []);
 
+  const verifyCard = (
+    <div className="card">
+      <div className="card-header">
+        <div className="card-icon icon-verify">🔍</div>
+        <h3>Verify Certificate</h3>
+      </div>
+
+      <form onSubmit={handleVerifyCertificate}>
+        <div className="form-group">
+          <label>Certificate ID</label>
+          <input
+            type="number"
+            min="1"
+            value={certificateId}
+            onChange={(e) => setCertificateId(e.target.value)}
+            placeholder="Enter certificate ID to verify"
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn" disabled={loading === 'verify'}>
+          {loading === 'verify' ? 'Verifying...' : 'Verify Certificate'}
+        </button>
+      </form>
+
+      {verifyResult && !verifyResult.certificate && (
+        <div className="status-notice status-missing">
+          Certificate #{verifyResult.id} was never issued.
+        </div>
+      )}
+
+      {verifyResult?.certificate && (
+        <div className="certificate-details">
+          <h4>Certificate Details</h4>
+          <CertificateStatusNotice certificate={verifyResult.certificate} />
+          <p><strong>Holder:</strong> {verifyResult.certificate.holder}</p>
+          <p><strong>Profession:</strong> {verifyResult.certificate.profession}</p>
+          <p><strong>Issue Date:</strong> {new Date(verifyResult.certificate.issueDate * 1000).toLocaleDateString()}</p>
+          <p><strong>Expiry Date:</strong> {new Date(verifyResult.certificate.expiryDate * 1000).toLocaleDateString()}</p>
+          <p><strong>Issuer:</strong> {verifyResult.certificate.issuerOrganization || 'Unknown organization'}</p>
+          <p><strong>Issuer Address:</strong> {verifyResult.certificate.issuer}</p>
+          <p>
+            <strong>Issuer Status:</strong>{' '}
+            <span className={verifyResult.certificate.issuerActive ? 'issuer-active' : 'issuer-inactive'}>
+              {verifyResult.certificate.issuerActive ? 'Verified, still authorized' : 'No longer authorized'}
+            </span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="app">
       <div className="container">
@@ -333,28 +666,97 @@ function App() {
           <h1>Privacy Professional Certificate System</h1>
           <p className="subtitle">Confidential professional certification using Fully Homomorphic Encryption</p>
           <div className={`status ${walletState.isConnected ? 'connected' : 'disconnected'}`}>
-            {walletState.isConnected ? 'Connected to Sepolia' : 'Not Connected'}
+            {walletState.isConnected ? `Connected to ${getActiveNetwork().name}` : 'Read-only Mode'}
           </div>
         </div>
 
-        {!walletState.isConnected ? (
-          <div className="connection-section">
-            <h2>Connect Your Wallet</h2>
-            <p>Please connect MetaMask to access the Privacy Professional Certificate System</p>
-            <button
-              className="connect-btn"
-              onClick={connectWallet}
-              disabled={loading === 'connection'}
-            >
-              {loading === 'connection' ? 'Connecting...' : 'Connect MetaMask'}
-            </button>
-            {error && <div className="error">{error}</div>}
-            {success && <div className="success">{success}</div>}
+        {pauseState.paused && (
+          <div className="pause-banner">
+            <strong>⚠️ The certificate registry is paused.</strong> Requests, processing, revocation and
+            extension are disabled and certificates do not verify until it resumes.
+            {pauseState.reason && <><br />Reason: {pauseState.reason}</>}
           </div>
+        )}
+
+        {!walletState.isConnected ? (
+          <>
+            <div className="connection-section">
+              <h2>Connect Your Wallet</h2>
+              <p>Connect MetaMask to request certificates or manage issuance. Verifying certificates works without a wallet.</p>
+              <button
+                className="connect-btn"
+                onClick={connectWallet}
+                disabled={loading === 'connection'}
+              >
+                {loading === 'connection' ? 'Connecting...' : 'Connect MetaMask'}
+              </button>
+              {error && <div className="error">{error}</div>}
+              {success && <div className="success">{success}</div>}
+            </div>
+
+            <div className="main-content">
+              {verifyCard}
+              <VerifyCredential />
+
+              {/* Holder Lookup Card */}
+              <div className="card">
+                <div className="card-header">
+                  <div className="card-icon icon-certificate">🏆</div>
+                  <h3>Certificates by Holder</h3>
+                </div>
+
+                <form onSubmit={handleLookupHolder}>
+                  <div className="form-group">
+                    <label>Holder Address</label>
+                    <input
+                      type="text"
+                      value={lookupAddress}
+                      onChange={(e) => setLookupAddress(e.target.value)}
+                      placeholder="0x..."
+                      required
+                    />
+                  </div>
+
+                  <button type="submit" className="btn" disabled={loading === 'lookup'}>
+                    {loading === 'lookup' ? 'Loading...' : 'Look Up Certificates'}
+                  </button>
+                </form>
+
+                {lookupCertificates && (
+                  <div className="certificate-list">
+                    {lookupCertificates.length === 0 ? (
+                      <p>No certificates found.</p>
+                    ) : (
+                      lookupCertificates.map((cert) => (
+                        <div key={cert.id} className="certificate-item">
+                          <div className="certificate-title">Certificate #{cert.id}</div>
+                          <div className="certificate-details">
+                            <strong>Profession:</strong> {cert.profession}<br />
+                            <strong>Issuer:</strong> {cert.issuerOrganization || 'Unknown organization'}<br />
+                            <strong>Issued:</strong> {new Date(cert.issueDate * 1000).toLocaleDateString()}
+                          </div>
+                          <CertificateStatusNotice certificate={cert} />
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
         ) : (
           <>
             <div className="network-info">
-              <strong>Network:</strong> {walletState.network} |{' '}
+              <strong>Network:</strong>{' '}
+              <select
+                className="network-select"
+                value={getActiveChainId()}
+                onChange={(e) => handleNetworkSelect(Number(e.target.value))}
+              >
+                {supportedNetworks().map((network) => (
+                  <option key={network.chainId} value={network.chainId}>{network.name} ({network.chainId})</option>
+                ))}
+              </select> |{' '}
               <strong>Account:</strong> {`${walletState.account.slice(0, 6)}...${walletState.account.slice(-4)}`} |{' '}
               <strong>Balance:</strong> {walletState.balance} ETH
             </div>
@@ -376,11 +778,9 @@ function App() {
                       required
                     >
                       <option value="">Select Profession</option>
-                      <option value="Software Engineer">Software Engineer</option>
-                      <option value="Data Scientist">Data Scientist</option>
-                      <option value="Cybersecurity Specialist">Cybersecurity Specialist</option>
-                      <option value="Project Manager">Project Manager</option>
-                      <option value="Other">Other</option>
+                      {professions.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
                     </select>
                   </div>
 
@@ -411,7 +811,25 @@ function App() {
                   </div>
 
                   <div className="form-group">
-                    <label>Evidence/Portfolio</label>
+                    <label>Reviewing Issuer</label>
+                    <select
+                      value={evidenceRecipient}
+                      onChange={(e) => setEvidenceRecipient(e.target.value)}
+                      required
+                    >
+                      <option value="">
+                        {profession && evidenceRecipients.length === 0 ? 'No issuers accepting evidence' : 'Select Issuer'}
+                      </option>
+                      {evidenceRecipients.map((recipient) => (
+                        <option key={recipient.address} value={recipient.address}>
+                          {recipient.organization} ({`${recipient.address.slice(0, 6)}...${recipient.address.slice(-4)}`})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label>Evidence/Portfolio (encrypted for the reviewing issuer)</label>
                     <textarea
                       value={evidence}
                       onChange={(e) => setEvidence(e.target.value)}
@@ -420,49 +838,43 @@ function App() {
                     />
                   </div>
 
-                  <button type="submit" className="btn" disabled={loading === 'request'}>
-                    {loading === 'request' ? 'Processing...' : 'Submit Request'}
+                  {demoModeEnabled && (
+                    <div className="form-group checkbox-group">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={submitPlaintext}
+                          onChange={(e) => setSubmitPlaintext(e.target.checked)}
+                        />
+                        Demo mode: submit score and level in plaintext
+                      </label>
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    className="btn"
+                    disabled={loading === 'request' || isPending('request') || pauseState.paused}
+                  >
+                    {loading === 'request' ? 'Encrypting...' : isPending('request') ? 'Submitting...' : 'Submit Request'}
                   </button>
                 </form>
               </div>
 
-              {/* Verify Certificate Card */}
-              <div className="card">
-                <div className="card-header">
-                  <div className="card-icon icon-verify">🔍</div>
-                  <h3>Verify Certificate</h3>
-                </div>
+              {verifyCard}
+              <VerifyCredential />
 
-                <form onSubmit={handleVerifyCertificate}>
-                  <div className="form-group">
-                    <label>Certificate ID</label>
-                    <input
-                      type="number"
-                      min="1"
-                      value={certificateId}
-                      onChange={(e) => setCertificateId(e.target.value)}
-                      placeholder="Enter certificate ID to verify"
-                      required
-                    />
+              {/* My Requests Card */}
+              {contract && (
+                <div className="card">
+                  <div className="card-header">
+                    <div className="card-icon icon-request">📨</div>
+                    <h3>My Requests</h3>
                   </div>
 
-                  <button type="submit" className="btn" disabled={loading === 'verify'}>
-                    {loading === 'verify' ? 'Verifying...' : 'Verify Certificate'}
-                  </button>
-                </form>
-
-                {verifiedCert && (
-                  <div className="certificate-details">
-                    <h4>Certificate Details</h4>
-                    <p><strong>Holder:</strong> {verifiedCert.holder}</p>
-                    <p><strong>Profession:</strong> {verifiedCert.profession}</p>
-                    <p><strong>Valid:</strong> {verifiedCert.isValid ? 'Yes' : 'No'}</p>
-                    <p><strong>Issue Date:</strong> {new Date(verifiedCert.issueDate * 1000).toLocaleDateString()}</p>
-                    <p><strong>Expiry Date:</strong> {new Date(verifiedCert.expiryDate * 1000).toLocaleDateString()}</p>
-                    <p><strong>Issuer:</strong> {verifiedCert.issuer}</p>
-                  </div>
-                )}
-              </div>
+                  <MyRequests contract={contract} account={walletState.account} onError={setError} />
+                </div>
+              )}
 
               {/* My Certificates Card */}
               <div className="card">
@@ -484,24 +896,146 @@ function App() {
                         <div className="certificate-title">Certificate #{cert.id}</div>
                         <div className="certificate-details">
                           <strong>Profession:</strong> {cert.profession}<br />
-                          <strong>Status:</strong> {cert.isValid ? 'Valid' : 'Invalid'}<br />
-                          <strong>Issued:</strong> {new Date(cert.issueDate * 1000).toLocaleDateString()}<br />
-                          <strong>Expires:</strong> {new Date(cert.expiryDate * 1000).toLocaleDateString()}
+                          <strong>Issuer:</strong> {cert.issuerOrganization || 'Unknown organization'}<br />
+                          <strong>Issued:</strong> {new Date(cert.issueDate * 1000).toLocaleDateString()}
                         </div>
+                        <CertificateStatusNotice certificate={cert} />
+                        {cert.status === CertificateStatus.Valid && (revealedValues[cert.id] ? (
+                          <div className="revealed-values">
+                            <strong>Score:</strong> {revealedValues[cert.id].score} |{' '}
+                            <strong>Level:</strong> {revealedValues[cert.id].level}
+                            <div className="revealed-note">Decrypted locally, visible only to you</div>
+                          </div>
+                        ) : (
+                          <button
+                            className="btn btn-small"
+                            onClick={() => handleRevealCertificate(cert.id)}
+                            disabled={loading === `reveal-${cert.id}`}
+                          >
+                            {loading === `reveal-${cert.id}` ? 'Decrypting...' : 'Reveal privately'}
+                          </button>
+                        ))}
+                        {cert.status === CertificateStatus.Valid && !cert.renewalRequested && (
+                          <button
+                            className="btn btn-small btn-secondary"
+                            onClick={() => handleRequestRenewal(cert.id)}
+                            disabled={isPending(`renew-${cert.id}`) || pauseState.paused}
+                          >
+                            {isPending(`renew-${cert.id}`) ? 'Requesting...' : 'Request Renewal'}
+                          </button>
+                        )}
+                        <button
+                          className="btn btn-small btn-secondary"
+                          onClick={() => setSharingId(sharingId === cert.id ? null : cert.id)}
+                        >
+                          {sharingId === cert.id ? 'Hide Share Link' : 'Share Verification Link'}
+                        </button>
+                        {sharingId === cert.id && (
+                          <ShareCertificate certificateId={cert.id} credentialHash={cert.credentialHash} />
+                        )}
+                        <button
+                          className="btn btn-small btn-secondary"
+                          onClick={() => setPrintingId(printingId === cert.id ? null : cert.id)}
+                        >
+                          {printingId === cert.id ? 'Hide Printable Certificate' : 'Printable Certificate'}
+                        </button>
+                        {printingId === cert.id && (
+                          <PrintableCertificate certificate={cert} onError={setError} />
+                        )}
+                        {contract && (
+                          <ExportCredential
+                            contract={contract}
+                            certificate={cert}
+                            onError={setError}
+                            onSuccess={setSuccess}
+                          />
+                        )}
+                        {contract && cert.status === CertificateStatus.Valid && (
+                          <button
+                            className="btn btn-small btn-secondary"
+                            onClick={() => setGrantingId(grantingId === cert.id ? null : cert.id)}
+                          >
+                            {grantingId === cert.id ? 'Hide' : 'Share with Verifier'}
+                          </button>
+                        )}
+                        {contract && grantingId === cert.id && (
+                          <ShareWithVerifier
+                            contract={contract}
+                            certificateId={cert.id}
+                            paused={pauseState.paused}
+                            onClose={() => setGrantingId(null)}
+                            onError={setError}
+                            onSuccess={setSuccess}
+                          />
+                        )}
                       </div>
                     ))
                   )}
                 </div>
               </div>
 
-              {/* Admin Panel Card */}
-              {walletState.isAdmin && (
+              {/* Selective Disclosure Card */}
+              {contract && (
+                <div className="card">
+                  <div className="card-header">
+                    <div className="card-icon icon-verify">🤝</div>
+                    <h3>Selective Disclosure</h3>
+                  </div>
+
+                  <DisclosureManager
+                    contract={contract}
+                    account={walletState.account}
+                    certificates={certificates}
+                    paused={pauseState.paused}
+                    onError={setError}
+                    onSuccess={setSuccess}
+                  />
+                </div>
+              )}
+
+              {/* Verifier Access Card */}
+              {contract && (
+                <div className="card">
+                  <div className="card-header">
+                    <div className="card-icon icon-verify">🔑</div>
+                    <h3>Verifier Access</h3>
+                  </div>
+
+                  <AccessGrants
+                    contract={contract}
+                    account={walletState.account}
+                    onError={setError}
+                    onSuccess={setSuccess}
+                  />
+                </div>
+              )}
+
+              {/* Shared With Me Card */}
+              {contract && (
                 <div className="card">
+                  <div className="card-header">
+                    <div className="card-icon icon-verify">📬</div>
+                    <h3>Shared With Me</h3>
+                  </div>
+
+                  <VerifierDisclosures contract={contract} account={walletState.account} onError={setError} />
+                  <VerifierGrants contract={contract} account={walletState.account} onError={setError} />
+                </div>
+              )}
+
+              {/* Issuer Panel Card */}
+              {walletState.roles.isIssuer && (
+                <div className="card card-wide">
                   <div className="card-header">
                     <div className="card-icon icon-manage">⚙️</div>
-                    <h3>Admin Panel</h3>
+                    <h3>Issuer Panel</h3>
                   </div>
 
+                  <p className="role-scope">
+                    <strong>Issuing as:</strong> {walletState.roles.issuerOrganization}<br />
+                    <strong>You can certify:</strong> {walletState.roles.issuerProfessions.join(', ')}
+                  </p>
+
                   <form onSubmit={handleProcessRequest}>
                     <div className="form-group">
                       <label>Request ID to Process</label>
@@ -515,23 +1049,107 @@ function App() {
                       />
                     </div>
 
-                    <div className="form-group">
-                      <label>Issuer Name</label>
-                      <input
-                        type="text"
-                        value={issuerName}
-                        onChange={(e) => setIssuerName(e.target.value)}
-                        placeholder="Enter issuer organization name"
-                        required
-                      />
-                    </div>
-
-                    <button type="submit" className="btn" disabled={loading === 'admin'}>
-                      {loading === 'admin' ? 'Processing...' : 'Process Request'}
+                    <button type="submit" className="btn" disabled={isPending('process') || pauseState.paused}>
+                      {isPending('process') ? 'Processing...' : 'Process Request'}
                     </button>
                   </form>
+
+                  {contract && (
+                    <EvidenceKeySetup
+                      contract={contract}
+                      account={walletState.account}
+                      onError={setError}
+                      onSuccess={setSuccess}
+                    />
+                  )}
+
+                  <h4 className="section-title">Request Queue</h4>
+                  {contract && (
+                    <RequestQueue
+                      contract={contract}
+                      account={walletState.account}
+                      issuerProfessions={walletState.roles.issuerProfessions}
+                      paused={pauseState.paused}
+                      onProcessed={(id, status) => setTrackedRequest({ id, status })}
+                      onError={setError}
+                      onSuccess={setSuccess}
+                    />
+                  )}
+
+                  {trackedRequest && (
+                    <div className="certificate-details">
+                      <h4>Request #{trackedRequest.id}</h4>
+                      <div className="status-steps">
+                        {statusStepsFor(trackedRequest.status).map(step => (
+                          <span
+                            key={step.status}
+                            className={`status-step ${step.status === trackedRequest.status ? 'active' : ''} ${step.status < trackedRequest.status ? 'done' : ''}`}
+                          >
+                            {step.label}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {contract && (
+                    <CertificateManager
+                      contract={contract}
+                      issuerProfessions={walletState.roles.issuerProfessions}
+                      paused={pauseState.paused}
+                      onError={setError}
+                      onSuccess={setSuccess}
+                    />
+                  )}
                 </div>
               )}
+
+              {/* Issuer Admin Console Card */}
+              {walletState.roles.isIssuerAdmin && contract && (
+                <div className="card card-wide">
+                  <div className="card-header">
+                    <div className="card-icon icon-issuer-admin">🛡️</div>
+                    <h3>Issuer Admin Console</h3>
+                  </div>
+
+                  <IssuerAdminConsole
+                    contract={contract}
+                    professions={professions}
+                    onError={setError}
+                    onSuccess={setSuccess}
+                  />
+                </div>
+              )}
+
+              {/* Owner Console Card */}
+              {walletState.roles.isOwner && contract && (
+                <div className="card card-wide">
+                  <div className="card-header">
+                    <div className="card-icon icon-owner">👑</div>
+                    <h3>Owner Console</h3>
+                  </div>
+
+                  <OwnerConsole
+                    contract={contract}
+                    professions={professions}
+                    onProfessionsChanged={() => loadProfessions(contract)}
+                    pauseState={pauseState}
+                    onPauseChanged={() => loadPauseState(contract)}
+                    onError={setError}
+                    onSuccess={setSuccess}
+                  />
+                </div>
+              )}
+
+              {/* Transactions Card */}
+              <div className="card">
+                <div className="card-header">
+                  <div className="card-icon icon-request">🧾</div>
+                  <h3>Transactions</h3>
+                </div>
+
+                <TransactionHistory account={walletState.account} />
+              </div>
             </div>
 
             {error && <div className="error">{error}</div>}
@@ -550,7 +1168,7 @@ function App() {
             <li>🏆 Tamper-proof digital certificates</li>
             <li>🔍 Public verification without revealing sensitive data</li>
             <li>⚙️ Authorized issuer management system</li>
-            <li>🌐 Sepolia testnet integration for testing</li>
+            <li>🌐 Sepolia testnet and local Hardhat node support</li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,152 @@
+import QRCode from 'qrcode';
+import { buildVerificationUrl } from './verification';
+import { Certificate, CertificateStatus } from './types';
+
+// A4 landscape in PDF points; the canvas is drawn at twice that for print sharpness
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const SCALE = 2;
+
+const STATUS_STAMPS: Partial<Record<CertificateStatus, string>> = {
+  [CertificateStatus.Revoked]: 'REVOKED',
+  [CertificateStatus.Expired]: 'EXPIRED',
+  [CertificateStatus.Suspended]: 'SUSPENDED'
+};
+
+const formatDate = (seconds: number): string =>
+  new Date(seconds * 1000).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Draws the printable certificate, QR code included, entirely in the browser
+export const renderCertificate = async (certificate: Certificate): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH * SCALE;
+  canvas.height = PAGE_HEIGHT * SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.scale(SCALE, SCALE);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.strokeStyle = '#667eea';
+  ctx.lineWidth = 6;
+  ctx.strokeRect(24, 24, PAGE_WIDTH - 48, PAGE_HEIGHT - 48);
+  ctx.lineWidth = 1;
+  ctx.strokeRect(36, 36, PAGE_WIDTH - 72, PAGE_HEIGHT - 72);
+
+  const center = PAGE_WIDTH / 2;
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#2d3748';
+  ctx.font = 'bold 34px Georgia, serif';
+  ctx.fillText('Professional Certificate', center, 100);
+
+  ctx.font = '16px Georgia, serif';
+  ctx.fillStyle = '#4a5568';
+  ctx.fillText('This certifies that the holder of', center, 150);
+  ctx.font = '15px monospace';
+  ctx.fillStyle = '#2d3748';
+  ctx.fillText(certificate.holder, center, 178);
+  ctx.font = '16px Georgia, serif';
+  ctx.fillStyle = '#4a5568';
+  ctx.fillText('is certified as', center, 210);
+  ctx.font = 'bold 30px Georgia, serif';
+  ctx.fillStyle = '#553c9a';
+  ctx.fillText(certificate.profession, center, 255);
+
+  ctx.font = '16px Georgia, serif';
+  ctx.fillStyle = '#4a5568';
+  ctx.fillText(`Issued by ${certificate.issuerOrganization || 'Unknown organization'}`, center, 295);
+
+  ctx.textAlign = 'left';
+  ctx.font = '14px Georgia, serif';
+  ctx.fillStyle = '#2d3748';
+  ctx.fillText(`Certificate ID: #${certificate.id}`, 70, 370);
+  ctx.fillText(`Issued: ${formatDate(certificate.issueDate)}`, 70, 395);
+  ctx.fillText(`Valid until: ${formatDate(certificate.expiryDate)}`, 70, 420);
+  ctx.fillText(`Issuer address: ${certificate.issuer}`, 70, 445);
+
+  ctx.font = '10px monospace';
+  ctx.fillStyle = '#718096';
+  ctx.fillText(`Credential hash: ${certificate.credentialHash}`, 70, 520);
+  ctx.fillText('Scan the code or open the link to verify this certificate on-chain.', 70, 538);
+
+  const qrSize = 150;
+  const qr = await QRCode.toCanvas(buildVerificationUrl(certificate.id, certificate.credentialHash), {
+    margin: 1,
+    width: qrSize * SCALE
+  });
+  ctx.drawImage(qr, PAGE_WIDTH - 70 - qrSize, 340, qrSize, qrSize);
+
+  // A stale printout must not pass for a valid one
+  const stamp = STATUS_STAMPS[certificate.status];
+  if (stamp) {
+    ctx.save();
+    ctx.translate(center, PAGE_HEIGHT / 2);
+    ctx.rotate(-Math.PI / 8);
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 96px sans-serif';
+    ctx.fillStyle = 'rgba(197, 48, 48, 0.3)';
+    ctx.fillText(stamp, 0, 30);
+    ctx.restore();
+  }
+
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render certificate'))), type, quality);
+  });
+
+export const toPng = (canvas: HTMLCanvasElement): Promise<Blob> => toBlob(canvas, 'image/png');
+
+// Single-page PDF wrapping the canvas as a JPEG image (DCTDecode), so no PDF library is needed
+export const toPdf = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  const jpeg = new Uint8Array(await (await toBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const encoder = new TextEncoder();
+  const content = `q ${PAGE_WIDTH} 0 0 ${PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream'
+    ]
+  ];
+
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  const push = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+
+  push('%PDF-1.4\n');
+  const offsets = objects.map((body, index) => {
+    const start = offset;
+    push(`${index + 1} 0 obj\n`);
+    body.forEach(push);
+    push('\nendobj\n');
+    return start;
+  });
+
+  const xrefStart = offset;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(start => push(`${String(start).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF`);
+
+  return new Blob(parts.map(part => new Uint8Array(part)), { type: 'application/pdf' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+import { syncEventIndex, getAccessHistory, activeGrants, AccessEvent } from '../indexer';
+import { AccessGrant } from '../types';
+import TxLink from './TxLink';
+
+const describeFields = (grant: { score: boolean; level: boolean }): string =>
+  [grant.score && 'score', grant.level && 'level'].filter(Boolean).join(' and ');
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+interface AccessGrantsProps {
+  contract: CertificateContract;
+  account: string;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+// Holder's view of who can read their raw values, with the full grant/revoke history
+function AccessGrants({ contract, account, onError, onSuccess }: AccessGrantsProps) {
+  const [history, setHistory] = useState<AccessEvent[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [loading, setLoading] = useState('');
+
+  const grants: AccessGrant[] = activeGrants(history);
+
+  const loadHistory = async () => {
+    try {
+      setLoading('grants');
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      setHistory(await getAccessHistory(deployment, account, 'holder'));
+    } catch (error: any) {
+      console.error('Access grant load error:', error);
+      onError(`Failed to load access grants: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+
+    const handleAccessEvent = () => {
+      loadHistory();
+    };
+    const filters = [
+      contract.filters.AccessGranted(undefined, account),
+      contract.filters.AccessRevoked(undefined, account)
+    ];
+    for (const filter of filters) contract.on(filter, handleAccessEvent);
+
+    return () => {
+      for (const filter of filters) contract.off(filter, handleAccessEvent);
+    };
+  }, [contract, account]);
+
+  const handleRevoke = async (grant: AccessGrant) => {
+    const key = `revoke-${grant.certificateId}-${grant.verifier}`;
+    try {
+      setLoading(key);
+      await sendTransaction(
+        contract,
+        { label: `Revoke ${shortAddress(grant.verifier)} access to certificate #${grant.certificateId}` },
+        contract.revokeAccess,
+        grant.certificateId,
+        grant.verifier
+      );
+
+      onSuccess(`Access to certificate #${grant.certificateId} revoked for ${shortAddress(grant.verifier)}`);
+      await loadHistory();
+    } catch (error: any) {
+      console.error('Revoke access error:', error);
+      onError(`Revoking access failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="access-grants">
+      {loading === 'grants' && grants.length === 0 ? (
+        <p>Loading access grants...</p>
+      ) : grants.length === 0 ? (
+        <p>No verifier currently has access to your scores or levels.</p>
+      ) : (
+        <div className="certificate-list">
+          {grants.map((grant) => (
+            <div key={`${grant.certificateId}-${grant.verifier}`} className="certificate-item">
+              <div className="queue-details">
+                <strong>Certificate #{grant.certificateId}:</strong> {describeFields(grant)}<br />
+                <strong>Verifier:</strong> {shortAddress(grant.verifier)}<br />
+                <strong>Expires:</strong> {new Date(grant.expiresAt * 1000).toLocaleString()}
+              </div>
+              <button
+                className="btn btn-small btn-danger"
+                onClick={() => handleRevoke(grant)}
+                disabled={loading === `revoke-${grant.certificateId}-${grant.verifier}`}
+              >
+                {loading === `revoke-${grant.certificateId}-${grant.verifier}` ? 'Revoking...' : 'Revoke'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button className="btn btn-small btn-secondary" onClick={() => setShowHistory(!showHistory)}>
+        {showHistory ? 'Hide Audit Trail' : 'Show Audit Trail'}
+      </button>
+
+      {showHistory && (
+        <ul className="audit-trail">
+          {history.length === 0 && <li>No grants yet.</li>}
+          {[...history].reverse().map((event) => (
+            <li key={event.key}>
+              {event.type === 'AccessGranted'
+                ? `Granted ${describeFields(event)} of #${event.certificateId} to ${shortAddress(event.verifier)} until ${new Date(event.expiresAt * 1000).toLocaleString()}`
+                : `Revoked access to #${event.certificateId} for ${shortAddress(event.verifier)}`}
+              {' · '}
+              <TxLink hash={event.transactionHash}>tx</TxLink>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AccessGrants;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { CertificateContract, lookupCertificate, lookupCertificateBatch, getContractDeployment } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+import { syncEventIndex, getIndexedEvents } from '../indexer';
+import { Certificate, CertificateStatus } from '../types';
+import CertificateStatusNotice from './CertificateStatusNotice';
+
+type ManageAction = 'extend' | 'revoke';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+interface CertificateManagerProps {
+  contract: CertificateContract;
+  issuerProfessions: string[];
+  paused: boolean;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function CertificateManager({ contract, issuerProfessions, paused, onError, onSuccess }: CertificateManagerProps) {
+  const [renewalRequests, setRenewalRequests] = useState<Certificate[]>([]);
+  const [selected, setSelected] = useState<Certificate | null>(null);
+  const [loading, setLoading] = useState('');
+
+  // Form states
+  const [certificateId, setCertificateId] = useState('');
+  const [action, setAction] = useState<ManageAction>('extend');
+  const [additionalDays, setAdditionalDays] = useState('');
+  const [reason, setReason] = useState('');
+
+  const resultingExpiry = selected && additionalDays
+    ? selected.expiryDate + parseInt(additionalDays) * DAY_SECONDS
+    : null;
+
+  // Open renewal requests are the RenewalRequested events whose flag has not been settled yet
+  const loadRenewalRequests = async () => {
+    try {
+      setLoading('renewals');
+
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      const events = await getIndexedEvents(deployment, 'RenewalRequested');
+      const ids = new Set(events.map(event => event.certificateId));
+
+      const certs = await lookupCertificateBatch(contract, [...ids]);
+      setRenewalRequests(certs.filter(cert =>
+        cert.renewalRequested &&
+        cert.status === CertificateStatus.Valid &&
+        issuerProfessions.includes(cert.profession)
+      ));
+    } catch (error: any) {
+      console.error('Renewal load error:', error);
+      onError(`Failed to load renewal requests: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadRenewalRequests();
+  }, [contract, issuerProfessions]);
+
+  const selectCertificate = async (id: number) => {
+    try {
+      setLoading('lookup');
+      const cert = await lookupCertificate(contract, id);
+      if (!cert) {
+        onError(`Certificate #${id} was never issued`);
+        setSelected(null);
+        return;
+      }
+
+      setSelected(cert);
+      setCertificateId(id.toString());
+      setReason(cert.renewalRequested ? 'Renewal requested by holder' : '');
+
+      // Default the extension to the profession's standard validity period
+      const requirements = await contract.getProfessionRequirements(cert.profession);
+      setAdditionalDays(requirements.validityDays.toString());
+    } catch (error: any) {
+      console.error('Certificate lookup error:', error);
+      onError(`Failed to load certificate: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    try {
+      setLoading('submit');
+      if (action === 'extend') {
+        await sendTransaction(
+          contract,
+          { label: `Extend certificate #${selected.id} by ${additionalDays} days` },
+          contract.extendCertificateValidity,
+          selected.id,
+          parseInt(additionalDays),
+          reason
+        );
+      } else {
+        await sendTransaction(
+          contract,
+          { label: `Revoke certificate #${selected.id}` },
+          contract.revokeCertificate,
+          selected.id,
+          reason
+        );
+      }
+
+      const updated = await lookupCertificate(contract, selected.id);
+      setSelected(updated);
+      onSuccess(action === 'extend'
+        ? `Certificate #${selected.id} now expires on ${new Date((updated?.expiryDate ?? 0) * 1000).toLocaleDateString()}`
+        : `Certificate #${selected.id} revoked`);
+      setReason('');
+      await loadRenewalRequests();
+    } catch (error: any) {
+      console.error('Certificate update error:', error);
+      onError(`${action === 'extend' ? 'Extension' : 'Revocation'} failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const canManage = selected !== null &&
+    selected.status === CertificateStatus.Valid &&
+    issuerProfessions.includes(selected.profession);
+
+  return (
+    <div className="certificate-manager">
+      <h4 className="section-title">Renewal Requests</h4>
+      {loading === 'renewals' ? (
+        <p>Loading renewal requests...</p>
+      ) : renewalRequests.length === 0 ? (
+        <p>No open renewal requests.</p>
+      ) : (
+        <div className="certificate-list">
+          {renewalRequests.map((cert) => (
+            <div key={cert.id} className="certificate-item">
+              <div className="queue-details">
+                <strong>Certificate #{cert.id}</strong> · {cert.profession}<br />
+                <strong>Expires:</strong> {new Date(cert.expiryDate * 1000).toLocaleDateString()}
+              </div>
+              <button className="btn btn-small" onClick={() => selectCertificate(cert.id)}>
+                Review
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h4 className="section-title">Revoke or Extend</h4>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          selectCertificate(parseInt(certificateId));
+        }}
+      >
+        <div className="form-group">
+          <label>Certificate ID</label>
+          <input
+            type="number"
+            min="1"
+            value={certificateId}
+            onChange={(e) => setCertificateId(e.target.value)}
+            placeholder="Enter certificate ID"
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn btn-secondary" disabled={loading === 'lookup'}>
+          {loading === 'lookup' ? 'Loading...' : 'Load Certificate'}
+        </button>
+      </form>
+
+      {selected && (
+        <div className="certificate-details">
+          <h4>Certificate #{selected.id}</h4>
+          <CertificateStatusNotice certificate={selected} />
+          <p><strong>Holder:</strong> {selected.holder}</p>
+          <p><strong>Profession:</strong> {selected.profession}</p>
+
+          {selected.status === CertificateStatus.Valid && !issuerProfessions.includes(selected.profession) && (
+            <div className="queue-note">Outside your authorized professions</div>
+          )}
+
+          {canManage && (
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label>Action</label>
+                <select value={action} onChange={(e) => setAction(e.target.value as ManageAction)}>
+                  <option value="extend">Extend validity</option>
+                  <option value="revoke">Revoke certificate</option>
+                </select>
+              </div>
+
+              {action === 'extend' && (
+                <div className="form-group">
+                  <label>Additional Days</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={additionalDays}
+                    onChange={(e) => setAdditionalDays(e.target.value)}
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="form-group">
+                <label>Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={action === 'extend' ? 'Reason for extension' : 'Reason for revocation'}
+                  required
+                />
+              </div>
+
+              <p className="queue-note">
+                {action === 'extend'
+                  ? `Resulting expiry: ${resultingExpiry ? new Date(resultingExpiry * 1000).toLocaleDateString() : '-'}`
+                  : 'The certificate stops verifying as soon as the revocation is mined.'}
+              </p>
+
+              <button
+                type="submit"
+                className={action === 'revoke' ? 'btn btn-danger' : 'btn'}
+                disabled={loading === 'submit' || paused}
+              >
+                {loading === 'submit'
+                  ? 'Submitting...'
+                  : action === 'extend' ? 'Extend Validity' : 'Revoke Certificate'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CertificateManager;
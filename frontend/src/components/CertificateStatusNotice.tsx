@@ -0,0 +1,53 @@
+import { Certificate, CertificateStatus, EXPIRY_WARNING_DAYS, daysUntilExpiry } from '../types';
+
+interface CertificateStatusNoticeProps {
+  certificate: Certificate;
+}
+
+function CertificateStatusNotice({ certificate }: CertificateStatusNoticeProps) {
+  switch (certificate.status) {
+    case CertificateStatus.Revoked:
+      return (
+        <div className="status-notice status-revoked">
+          <strong>Revoked</strong>
+          {certificate.revocation
+            ? ` on ${new Date(certificate.revocation.revokedAt * 1000).toLocaleDateString()}: ${certificate.revocation.reason}`
+            : ' (reason unavailable)'}
+        </div>
+      );
+    case CertificateStatus.Expired:
+      return (
+        <div className="status-notice status-expired">
+          <strong>Expired</strong> on {new Date(certificate.expiryDate * 1000).toLocaleDateString()}
+        </div>
+      );
+    case CertificateStatus.Suspended:
+      return (
+        <div className="status-notice status-suspended">
+          <strong>Suspended</strong> while the certificate registry is paused
+        </div>
+      );
+    case CertificateStatus.Valid: {
+      const daysLeft = daysUntilExpiry(certificate.expiryDate);
+      if (daysLeft <= EXPIRY_WARNING_DAYS) {
+        return (
+          <div className="status-notice status-expiring">
+            <strong>Expires in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}</strong>
+            {' '}on {new Date(certificate.expiryDate * 1000).toLocaleDateString()}
+            {certificate.renewalRequested && ' (renewal requested)'}
+          </div>
+        );
+      }
+      return (
+        <div className="status-notice status-valid">
+          <strong>Valid</strong> until {new Date(certificate.expiryDate * 1000).toLocaleDateString()}
+          {certificate.renewalRequested && ' (renewal requested)'}
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+export default CertificateStatusNotice;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, fetchDisclosures, getContractDeployment } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+import { syncEventIndex, getDisclosureIds } from '../indexer';
+import { Certificate, CertificateStatus, Disclosure, DisclosureField, DISCLOSURE_FIELD_LABELS } from '../types';
+
+interface DisclosureManagerProps {
+  contract: CertificateContract;
+  account: string;
+  certificates: Certificate[];
+  paused: boolean;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+// Holder side of selective disclosure: prove "field >= threshold" to one verifier without revealing the value
+function DisclosureManager({ contract, account, certificates, paused, onError, onSuccess }: DisclosureManagerProps) {
+  const [disclosures, setDisclosures] = useState<Disclosure[]>([]);
+  const [loading, setLoading] = useState('');
+
+  // Form states
+  const [certificateId, setCertificateId] = useState('');
+  const [verifier, setVerifier] = useState('');
+  const [field, setField] = useState<DisclosureField>(DisclosureField.Score);
+  const [threshold, setThreshold] = useState('');
+
+  const validCertificates = certificates.filter(cert => cert.status === CertificateStatus.Valid);
+
+  const loadDisclosures = async () => {
+    try {
+      setLoading('disclosures');
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      setDisclosures(await fetchDisclosures(contract, await getDisclosureIds(deployment, account, 'holder')));
+    } catch (error: any) {
+      console.error('Disclosure load error:', error);
+      onError(`Failed to load disclosures: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadDisclosures();
+  }, [contract, account]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(verifier)) {
+      onError('Please enter a valid verifier address');
+      return;
+    }
+
+    try {
+      setLoading('create');
+      await sendTransaction(
+        contract,
+        { label: `Share certificate #${certificateId} disclosure` },
+        contract.createDisclosure,
+        parseInt(certificateId),
+        verifier,
+        field,
+        parseInt(threshold)
+      );
+
+      onSuccess(`Disclosure shared with ${verifier.slice(0, 6)}...${verifier.slice(-4)}`);
+      setVerifier('');
+      setThreshold('');
+      await loadDisclosures();
+    } catch (error: any) {
+      console.error('Disclosure error:', error);
+      onError(`Creating disclosure failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    try {
+      setLoading(`revoke-${id}`);
+      await sendTransaction(contract, { label: `Revoke disclosure #${id}` }, contract.revokeDisclosure, id);
+
+      onSuccess(`Disclosure #${id} revoked`);
+      await loadDisclosures();
+    } catch (error: any) {
+      console.error('Disclosure revoke error:', error);
+      onError(`Revoking disclosure failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="disclosure-manager">
+      <form onSubmit={handleCreate}>
+        <div className="form-group">
+          <label>Certificate</label>
+          <select value={certificateId} onChange={(e) => setCertificateId(e.target.value)} required>
+            <option value="">{validCertificates.length === 0 ? 'Load your certificates first' : 'Select Certificate'}</option>
+            {validCertificates.map((cert) => (
+              <option key={cert.id} value={cert.id}>#{cert.id} · {cert.profession}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label>Verifier Address</label>
+          <input
+            type="text"
+            value={verifier}
+            onChange={(e) => setVerifier(e.target.value)}
+            placeholder="0x..."
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Prove That</label>
+          <div className="predicate-row">
+            <select value={field} onChange={(e) => setField(Number(e.target.value) as DisclosureField)}>
+              <option value={DisclosureField.Score}>Score</option>
+              <option value={DisclosureField.Level}>Level</option>
+            </select>
+            <span>≥</span>
+            <input
+              type="number"
+              min="0"
+              max={field === DisclosureField.Score ? 100 : 10}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <button type="submit" className="btn" disabled={loading === 'create' || paused}>
+          {loading === 'create' ? 'Sharing...' : 'Share Disclosure'}
+        </button>
+      </form>
+
+      <p className="queue-note">
+        Revoking stops a verifier from claiming the answer, but an answer they have already decrypted cannot be withdrawn.
+      </p>
+
+      {loading === 'disclosures' ? (
+        <p>Loading disclosures...</p>
+      ) : disclosures.length > 0 && (
+        <div className="certificate-list">
+          {disclosures.map((disclosure) => (
+            <div key={disclosure.id} className="certificate-item">
+              <div className="queue-details">
+                <strong>Certificate #{disclosure.certificateId}:</strong>{' '}
+                {DISCLOSURE_FIELD_LABELS[disclosure.field]} ≥ {disclosure.threshold}<br />
+                <strong>Verifier:</strong> {`${disclosure.verifier.slice(0, 6)}...${disclosure.verifier.slice(-4)}`}<br />
+                <strong>Shared:</strong> {new Date(disclosure.createdAt * 1000).toLocaleDateString()}
+              </div>
+              {disclosure.isRevoked ? (
+                <span className="issuer-inactive">Revoked</span>
+              ) : (
+                <button
+                  className="btn btn-small btn-danger"
+                  onClick={() => handleRevoke(disclosure.id)}
+                  disabled={loading === `revoke-${disclosure.id}`}
+                >
+                  {loading === `revoke-${disclosure.id}` ? 'Revoking...' : 'Revoke'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DisclosureManager;
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+import { deriveEvidenceKey } from '../evidence';
+
+interface EvidenceKeySetupProps {
+  contract: CertificateContract;
+  account: string;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+// Applicants can only send evidence to issuers that have published a key
+function EvidenceKeySetup({ contract, account, onError, onSuccess }: EvidenceKeySetupProps) {
+  const [publishedKey, setPublishedKey] = useState('');
+  const [loading, setLoading] = useState('');
+
+  const loadPublishedKey = async () => {
+    try {
+      setLoading('key');
+      const key: string = await contract.evidenceKeys(account);
+      setPublishedKey(key === '0x' ? '' : key);
+    } catch (error: any) {
+      console.error('Evidence key load error:', error);
+      onError(`Failed to load evidence key: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadPublishedKey();
+  }, [contract, account]);
+
+  const handlePublish = async () => {
+    try {
+      setLoading('publish');
+      const key = await deriveEvidenceKey(contract.runner as ethers.Signer);
+      await sendTransaction(contract, { label: 'Publish evidence key' }, contract.setEvidenceKey, key.compressedPublicKey);
+
+      onSuccess('Evidence key published; applicants can now send you encrypted evidence');
+      await loadPublishedKey();
+    } catch (error: any) {
+      console.error('Evidence key error:', error);
+      onError(`Publishing evidence key failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="evidence-key">
+      <p className="role-scope">
+        <strong>Evidence key:</strong>{' '}
+        {loading === 'key'
+          ? 'Loading...'
+          : publishedKey ? <span className="hash">{publishedKey}</span> : 'Not published'}
+      </p>
+      <button className="btn btn-small btn-secondary" onClick={handlePublish} disabled={loading === 'publish'}>
+        {loading === 'publish'
+          ? 'Publishing...'
+          : publishedKey ? 'Republish Evidence Key' : 'Publish Evidence Key'}
+      </button>
+    </div>
+  );
+}
+
+export default EvidenceKeySetup;
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract } from '../contract';
+import { buildCredential, signCredential } from '../credential';
+import { downloadBlob } from '../certificateDocument';
+import { Certificate } from '../types';
+
+interface ExportCredentialProps {
+  contract: CertificateContract;
+  certificate: Certificate;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function ExportCredential({ contract, certificate, onError, onSuccess }: ExportCredentialProps) {
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async () => {
+    try {
+      setLoading(true);
+      const signer = contract.runner as ethers.Signer;
+      if (!signer.provider) throw new Error('Wallet not connected');
+      const network = await signer.provider.getNetwork();
+
+      const credential = await signCredential(signer, buildCredential(certificate, Number(network.chainId)));
+      const blob = new Blob([JSON.stringify(credential, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `certificate-${certificate.id}.vc.json`);
+
+      onSuccess(`Certificate #${certificate.id} exported as a signed Verifiable Credential`);
+    } catch (error: any) {
+      console.error('Credential export error:', error);
+      onError(`Exporting credential failed: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button className="btn btn-small btn-secondary" onClick={handleExport} disabled={loading}>
+      {loading ? 'Signing...' : 'Export as Verifiable Credential'}
+    </button>
+  );
+}
+
+export default ExportCredential;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { syncEventIndex, getIndexedEvents } from '../indexer';
+import { sendTransaction, describeTxError } from '../transactions';
+
+interface IssuerEntry {
+  address: string;
+  organization: string;
+  metadataURI: string;
+  isActive: boolean;
+  professions: string[];
+}
+
+interface IssuerAdminConsoleProps {
+  contract: CertificateContract;
+  professions: string[];
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function IssuerAdminConsole({ contract, professions, onError, onSuccess }: IssuerAdminConsoleProps) {
+  const [issuers, setIssuers] = useState<IssuerEntry[]>([]);
+  const [loading, setLoading] = useState('');
+
+  // Form states
+  const [issuerAddress, setIssuerAddress] = useState('');
+  const [organization, setOrganization] = useState('');
+  const [metadataURI, setMetadataURI] = useState('');
+  const [scopeIssuer, setScopeIssuer] = useState('');
+  const [scopeProfession, setScopeProfession] = useState('');
+
+  // Replays issuer events in chain order; the last event per address and profession wins
+  const loadIssuers = async () => {
+    try {
+      setLoading('issuers');
+
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      const [authorized, revoked, metadata, scoped] = await Promise.all([
+        getIndexedEvents(deployment, 'IssuerAuthorized'),
+        getIndexedEvents(deployment, 'IssuerRevoked'),
+        getIndexedEvents(deployment, 'IssuerMetadataUpdated'),
+        getIndexedEvents(deployment, 'IssuerProfessionUpdated')
+      ]);
+
+      // Each event becomes an update to its issuer's entry, applied in chain order
+      type IssuerUpdate = { blockNumber: number; logIndex: number; issuer: string; apply: (entry: IssuerEntry) => IssuerEntry };
+      const update = (
+        event: { blockNumber: number; logIndex: number; issuer: string },
+        apply: IssuerUpdate['apply']
+      ): IssuerUpdate => ({ blockNumber: event.blockNumber, logIndex: event.logIndex, issuer: event.issuer, apply });
+
+      const updates = [
+        ...authorized.map(event => update(event, entry => ({ ...entry, organization: event.organization, isActive: true }))),
+        ...revoked.map(event => update(event, entry => ({ ...entry, isActive: false }))),
+        ...metadata.map(event => update(event, entry => ({ ...entry, metadataURI: event.metadataURI }))),
+        ...scoped.map(event => update(event, entry => {
+          const others = entry.professions.filter(name => name !== event.profession);
+          return { ...entry, professions: event.allowed ? [...others, event.profession] : others };
+        }))
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+      const registry = new Map<string, IssuerEntry>();
+      for (const { issuer, apply } of updates) {
+        const existing = registry.get(issuer)
+          ?? { address: issuer, organization: '', metadataURI: '', isActive: false, professions: [] };
+        registry.set(issuer, apply(existing));
+      }
+
+      setIssuers([...registry.values()]);
+    } catch (error: any) {
+      console.error('Issuer load error:', error);
+      onError(`Failed to load issuers: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadIssuers();
+  }, [contract]);
+
+  const handleAuthorizeIssuer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(issuerAddress)) {
+      onError('Please enter a valid issuer address');
+      return;
+    }
+
+    try {
+      setLoading('authorize');
+      await sendTransaction(
+        contract,
+        { label: `Authorize issuer ${organization}` },
+        contract.authorizeIssuer,
+        issuerAddress,
+        organization,
+        metadataURI
+      );
+
+      onSuccess(`Issuer ${organization} authorized`);
+      setIssuerAddress('');
+      setOrganization('');
+      setMetadataURI('');
+      await loadIssuers();
+    } catch (error: any) {
+      console.error('Authorize error:', error);
+      onError(`Authorization failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleRevokeIssuer = async (address: string) => {
+    try {
+      setLoading(`revoke-${address}`);
+      await sendTransaction(
+        contract,
+        { label: `Revoke issuer ${address.slice(0, 6)}...${address.slice(-4)}` },
+        contract.revokeIssuer,
+        address
+      );
+
+      onSuccess('Issuer revoked');
+      await loadIssuers();
+    } catch (error: any) {
+      console.error('Revoke issuer error:', error);
+      onError(`Revocation failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleSetScope = async (address: string, profession: string, allowed: boolean) => {
+    try {
+      setLoading(`scope-${address}-${profession}`);
+      await sendTransaction(
+        contract,
+        { label: `${allowed ? 'Assign' : 'Remove'} ${profession} for issuer ${address.slice(0, 6)}...${address.slice(-4)}` },
+        contract.setIssuerProfession,
+        address,
+        profession,
+        allowed
+      );
+
+      onSuccess(allowed ? `Issuer can now certify ${profession}` : `Removed ${profession} from issuer`);
+      setScopeProfession('');
+      await loadIssuers();
+    } catch (error: any) {
+      console.error('Issuer scope error:', error);
+      onError(`Updating issuer professions failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const activeIssuers = issuers.filter(issuer => issuer.isActive);
+
+  return (
+    <div className="issuer-admin-console">
+      <h4 className="section-title">Authorize Issuer</h4>
+      <form onSubmit={handleAuthorizeIssuer}>
+        <div className="form-group">
+          <label>Issuer Address</label>
+          <input
+            type="text"
+            value={issuerAddress}
+            onChange={(e) => setIssuerAddress(e.target.value)}
+            placeholder="0x..."
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Organization Name</label>
+          <input
+            type="text"
+            value={organization}
+            onChange={(e) => setOrganization(e.target.value)}
+            placeholder="Enter issuer organization name"
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Metadata URI</label>
+          <input
+            type="text"
+            value={metadataURI}
+            onChange={(e) => setMetadataURI(e.target.value)}
+            placeholder="ipfs://... or https://... (optional)"
+          />
+        </div>
+
+        <button type="submit" className="btn" disabled={loading === 'authorize'}>
+          {loading === 'authorize' ? 'Authorizing...' : 'Authorize Issuer'}
+        </button>
+      </form>
+
+      <h4 className="section-title">Assign Profession</h4>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSetScope(scopeIssuer, scopeProfession, true);
+        }}
+      >
+        <div className="form-group">
+          <label>Issuer</label>
+          <select value={scopeIssuer} onChange={(e) => setScopeIssuer(e.target.value)} required>
+            <option value="">Select Issuer</option>
+            {activeIssuers.map((issuer) => (
+              <option key={issuer.address} value={issuer.address}>
+                {issuer.organization || issuer.address}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label>Profession</label>
+          <select value={scopeProfession} onChange={(e) => setScopeProfession(e.target.value)} required>
+            <option value="">Select Profession</option>
+            {professions.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <button type="submit" className="btn" disabled={loading.startsWith('scope-')}>
+          {loading.startsWith('scope-') ? 'Saving...' : 'Assign Profession'}
+        </button>
+      </form>
+
+      <h4 className="section-title">Current Issuers</h4>
+      {loading === 'issuers' ? (
+        <p>Loading issuers...</p>
+      ) : issuers.length === 0 ? (
+        <p>No issuers authorized yet.</p>
+      ) : (
+        <div className="certificate-list">
+          {issuers.map((issuer) => (
+            <div key={issuer.address} className="certificate-item">
+              <div className="certificate-title">{issuer.organization || 'Unknown organization'}</div>
+              <div className="queue-details">
+                <strong>Address:</strong> {issuer.address}<br />
+                <strong>Status:</strong> {issuer.isActive ? 'Authorized' : 'Revoked'}<br />
+                {issuer.metadataURI && (
+                  <>
+                    <strong>Metadata:</strong> {issuer.metadataURI}<br />
+                  </>
+                )}
+                <strong>Professions:</strong> {issuer.professions.length === 0 && 'None'}
+              </div>
+              <div className="tag-list">
+                {issuer.professions.map((name) => (
+                  <span key={name} className="tag">
+                    {name}
+                    <button
+                      className="tag-remove"
+                      title={`Remove ${name}`}
+                      onClick={() => handleSetScope(issuer.address, name, false)}
+                      disabled={loading === `scope-${issuer.address}-${name}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+              {issuer.isActive && (
+                <button
+                  className="btn btn-small btn-danger"
+                  onClick={() => handleRevokeIssuer(issuer.address)}
+                  disabled={loading === `revoke-${issuer.address}`}
+                >
+                  {loading === `revoke-${issuer.address}` ? 'Revoking...' : 'Revoke'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default IssuerAdminConsole;
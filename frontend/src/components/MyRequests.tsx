@@ -0,0 +1,148 @@
+import { useState, useEffect, useRef } from 'react';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { RequestStatus, REQUEST_STATUS_LABELS, ApplicantRequest } from '../types';
+import { syncEventIndex, getIndexedEvents } from '../indexer';
+import TxLink from './TxLink';
+
+const STATUS_CLASSES: Record<RequestStatus, string> = {
+  [RequestStatus.Pending]: 'request-pending',
+  [RequestStatus.AwaitingDecryption]: 'request-pending',
+  [RequestStatus.Approved]: 'request-approved',
+  [RequestStatus.Rejected]: 'request-rejected'
+};
+
+interface MyRequestsProps {
+  contract: CertificateContract;
+  account: string;
+  onError: (message: string) => void;
+}
+
+function MyRequests({ contract, account, onError }: MyRequestsProps) {
+  const [requests, setRequests] = useState<ApplicantRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const requestIds = useRef<Set<number>>(new Set());
+
+  // The index finds the account's requests and their outcomes; the getters fill in current state
+  const loadRequests = async () => {
+    try {
+      setLoading(true);
+
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      const [requested, approvals, rejections] = await Promise.all([
+        getIndexedEvents(deployment, 'CertificationRequested'),
+        getIndexedEvents(deployment, 'CertificationApproved'),
+        getIndexedEvents(deployment, 'CertificationRejected')
+      ]);
+
+      const mine = requested
+        .filter(event => event.applicant.toLowerCase() === account.toLowerCase())
+        .reverse();
+      const certificateIds = new Map(approvals.map(event => [event.requestId, event.certificateId]));
+      const rejectionReasons = new Map(rejections.map(event => [event.requestId, event.reason]));
+
+      const rows = await Promise.all(mine.map(async (event): Promise<ApplicantRequest> => {
+        const [request, status] = await Promise.all([
+          contract.certificationRequests(event.requestId),
+          contract.requestStatus(event.requestId)
+        ]);
+        return {
+          id: event.requestId,
+          applicant: request.applicant,
+          profession: request.profession,
+          evidenceHash: request.evidenceHash,
+          evidenceURI: request.evidenceURI,
+          evidenceRecipient: request.evidenceRecipient,
+          requestTime: Number(request.requestTime),
+          isProcessed: request.isProcessed,
+          isApproved: request.isApproved,
+          status: Number(status) as RequestStatus,
+          transactionHash: event.transactionHash,
+          certificateId: certificateIds.get(event.requestId),
+          rejectionReason: rejectionReasons.get(event.requestId)
+        };
+      }));
+
+      requestIds.current = new Set(rows.map(row => row.id));
+      setRequests(rows);
+    } catch (error: any) {
+      console.error('My requests load error:', error);
+      onError(`Failed to load your requests: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New requests from this account and decisions on known requests trigger an incremental reload
+  useEffect(() => {
+    loadRequests();
+
+    const ownRequestFilter = contract.filters.CertificationRequested(undefined, account);
+    const decisionEvents = [
+      contract.filters.CertificationDecisionRequested,
+      contract.filters.CertificationApproved,
+      contract.filters.CertificationRejected
+    ];
+    const handleRequested = () => {
+      loadRequests();
+    };
+    const handleDecision = (requestId: bigint) => {
+      if (requestIds.current.has(Number(requestId))) loadRequests();
+    };
+
+    contract.on(ownRequestFilter, handleRequested);
+    for (const event of decisionEvents) contract.on(event, handleDecision);
+
+    return () => {
+      contract.off(ownRequestFilter, handleRequested);
+      for (const event of decisionEvents) contract.off(event, handleDecision);
+    };
+  }, [contract, account]);
+
+  return (
+    <div className="my-requests">
+      <button className="btn btn-small" onClick={loadRequests} disabled={loading}>
+        {loading ? 'Loading...' : 'Refresh'}
+      </button>
+
+      {requests.length === 0 ? (
+        <p>You have not requested any certificates yet.</p>
+      ) : (
+        <div className="certificate-list">
+          {requests.map((request) => (
+            <div key={request.id} className="certificate-item">
+              <div className="certificate-title">Request #{request.id}</div>
+              <div className="queue-details">
+                <strong>Profession:</strong> {request.profession}<br />
+                <strong>Requested:</strong> {new Date(request.requestTime * 1000).toLocaleString()}<br />
+                <strong>Status:</strong>{' '}
+                <span className={STATUS_CLASSES[request.status]}>
+                  {REQUEST_STATUS_LABELS[request.status]}
+                </span>
+                {request.certificateId !== undefined && (
+                  <>
+                    <br />
+                    <strong>Certificate:</strong> #{request.certificateId}
+                  </>
+                )}
+                {request.rejectionReason && (
+                  <>
+                    <br />
+                    <strong>Reason:</strong> {request.rejectionReason}
+                  </>
+                )}
+                <br />
+                <strong>Tx:</strong>{' '}
+                <TxLink hash={request.transactionHash}>
+                  {`${request.transactionHash.slice(0, 10)}...`}
+                </TxLink>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MyRequests;
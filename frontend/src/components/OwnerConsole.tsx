@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { syncEventIndex, getIndexedEvents } from '../indexer';
+import { PauseState } from '../types';
+import { sendTransaction, describeTxError } from '../transactions';
+
+interface IssuerAdminEntry {
+  address: string;
+  isActive: boolean;
+}
+
+interface OwnerConsoleProps {
+  contract: CertificateContract;
+  professions: string[];
+  onProfessionsChanged: () => void;
+  pauseState: PauseState;
+  onPauseChanged: () => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function OwnerConsole({
+  contract,
+  professions,
+  onProfessionsChanged,
+  pauseState,
+  onPauseChanged,
+  onError,
+  onSuccess
+}: OwnerConsoleProps) {
+  const [issuerAdmins, setIssuerAdmins] = useState<IssuerAdminEntry[]>([]);
+  const [loading, setLoading] = useState('');
+
+  // Form states
+  const [adminAddress, setAdminAddress] = useState('');
+  const [professionName, setProfessionName] = useState('');
+  const [minScore, setMinScore] = useState('');
+  const [minLevel, setMinLevel] = useState('');
+  const [validityDays, setValidityDays] = useState('365');
+  const [pauseReason, setPauseReason] = useState('');
+
+  // Replays admin events in chain order; the last event per address wins
+  const loadIssuerAdmins = async () => {
+    try {
+      setLoading('admins');
+
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      const events = await getIndexedEvents(deployment, 'IssuerAdminUpdated');
+
+      const registry = new Map<string, IssuerAdminEntry>();
+      for (const event of events) {
+        registry.set(event.admin, { address: event.admin, isActive: event.enabled });
+      }
+
+      setIssuerAdmins([...registry.values()]);
+    } catch (error: any) {
+      console.error('Issuer admin load error:', error);
+      onError(`Failed to load issuer admins: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    loadIssuerAdmins();
+  }, [contract]);
+
+  const handleSetIssuerAdmin = async (address: string, enabled: boolean) => {
+    if (!ethers.isAddress(address)) {
+      onError('Please enter a valid admin address');
+      return;
+    }
+
+    try {
+      setLoading(`admin-${address}`);
+      await sendTransaction(
+        contract,
+        { label: `${enabled ? 'Add' : 'Remove'} issuer admin ${address.slice(0, 6)}...${address.slice(-4)}` },
+        contract.setIssuerAdmin,
+        address,
+        enabled
+      );
+
+      onSuccess(enabled ? 'Issuer admin added' : 'Issuer admin removed');
+      setAdminAddress('');
+      await loadIssuerAdmins();
+    } catch (error: any) {
+      console.error('Issuer admin error:', error);
+      onError(`Updating issuer admin failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleSelectProfession = async (name: string) => {
+    setProfessionName(name);
+    if (!professions.includes(name)) return;
+
+    try {
+      const requirements = await contract.getProfessionRequirements(name);
+      setMinScore(requirements.minScore.toString());
+      setMinLevel(requirements.minLevel.toString());
+      setValidityDays(requirements.validityDays.toString());
+    } catch (error) {
+      console.error('Requirements load error:', error);
+    }
+  };
+
+  const handleSetRequirements = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading('requirements');
+      await sendTransaction(
+        contract,
+        { label: `Set requirements for ${professionName}` },
+        contract.setProfessionRequirements,
+        professionName,
+        parseInt(minScore),
+        parseInt(minLevel),
+        parseInt(validityDays)
+      );
+
+      onSuccess(`Requirements saved for ${professionName}`);
+      setProfessionName('');
+      setMinScore('');
+      setMinLevel('');
+      setValidityDays('365');
+      onProfessionsChanged();
+    } catch (error: any) {
+      console.error('Requirements error:', error);
+      onError(`Saving requirements failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleTogglePause = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading('pause');
+      if (pauseState.paused) {
+        await sendTransaction(contract, { label: 'Resume registry' }, contract.unpause);
+      } else {
+        await sendTransaction(contract, { label: 'Pause registry' }, contract.emergencyPause, pauseReason);
+      }
+
+      onSuccess(pauseState.paused ? 'Contract resumed' : 'Contract paused');
+      setPauseReason('');
+      onPauseChanged();
+    } catch (error: any) {
+      console.error('Pause error:', error);
+      onError(`${pauseState.paused ? 'Unpausing' : 'Pausing'} failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="owner-console">
+      <h4 className="section-title">Emergency Pause</h4>
+      <form onSubmit={handleTogglePause}>
+        {!pauseState.paused && (
+          <div className="form-group">
+            <label>Reason</label>
+            <input
+              type="text"
+              value={pauseReason}
+              onChange={(e) => setPauseReason(e.target.value)}
+              placeholder="Why is the registry being paused?"
+              required
+            />
+          </div>
+        )}
+
+        <button
+          type="submit"
+          className={pauseState.paused ? 'btn' : 'btn btn-danger'}
+          disabled={loading === 'pause'}
+        >
+          {loading === 'pause'
+            ? 'Submitting...'
+            : pauseState.paused ? 'Resume Contract' : 'Pause Contract'}
+        </button>
+      </form>
+
+      <h4 className="section-title">Issuer Admins</h4>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSetIssuerAdmin(adminAddress, true);
+        }}
+      >
+        <div className="form-group">
+          <label>Admin Address</label>
+          <input
+            type="text"
+            value={adminAddress}
+            onChange={(e) => setAdminAddress(e.target.value)}
+            placeholder="0x..."
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn" disabled={loading === `admin-${adminAddress}`}>
+          {loading === `admin-${adminAddress}` ? 'Saving...' : 'Add Issuer Admin'}
+        </button>
+      </form>
+
+      {loading === 'admins' ? (
+        <p>Loading issuer admins...</p>
+      ) : (
+        <div className="certificate-list">
+          {issuerAdmins.filter(admin => admin.isActive).map((admin) => (
+            <div key={admin.address} className="certificate-item">
+              <div className="queue-details">{admin.address}</div>
+              <button
+                className="btn btn-small btn-danger"
+                onClick={() => handleSetIssuerAdmin(admin.address, false)}
+                disabled={loading === `admin-${admin.address}`}
+              >
+                {loading === `admin-${admin.address}` ? 'Removing...' : 'Remove'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h4 className="section-title">Profession Requirements</h4>
+      <form onSubmit={handleSetRequirements}>
+        <div className="form-group">
+          <label>Profession</label>
+          <input
+            type="text"
+            list="registered-professions"
+            value={professionName}
+            onChange={(e) => handleSelectProfession(e.target.value)}
+            placeholder="Pick an existing profession or type a new one"
+            required
+          />
+          <datalist id="registered-professions">
+            {professions.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="form-group">
+          <label>Minimum Score (0-100)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Minimum Level (1-10)</label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={minLevel}
+            onChange={(e) => setMinLevel(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Certificate Validity (days)</label>
+          <input
+            type="number"
+            min="1"
+            value={validityDays}
+            onChange={(e) => setValidityDays(e.target.value)}
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn" disabled={loading === 'requirements'}>
+          {loading === 'requirements'
+            ? 'Saving...'
+            : professions.includes(professionName) ? 'Update Requirements' : 'Create Profession'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default OwnerConsole;
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { renderCertificate, toPng, toPdf, downloadBlob } from '../certificateDocument';
+import { Certificate } from '../types';
+
+interface PrintableCertificateProps {
+  certificate: Certificate;
+  onError: (message: string) => void;
+}
+
+function PrintableCertificate({ certificate, onError }: PrintableCertificateProps) {
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [preview, setPreview] = useState('');
+
+  useEffect(() => {
+    renderCertificate(certificate)
+      .then((rendered) => {
+        setCanvas(rendered);
+        setPreview(rendered.toDataURL('image/png'));
+      })
+      .catch((error) => {
+        console.error('Certificate render error:', error);
+        onError(`Rendering certificate failed: ${error.message}`);
+      });
+  }, [certificate]);
+
+  const handleDownload = async (format: 'png' | 'pdf') => {
+    if (!canvas) return;
+    try {
+      const blob = format === 'png' ? await toPng(canvas) : await toPdf(canvas);
+      downloadBlob(blob, `certificate-${certificate.id}.${format}`);
+    } catch (error: any) {
+      console.error('Certificate download error:', error);
+      onError(`Downloading certificate failed: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="printable-certificate">
+      {preview ? (
+        <img src={preview} alt={`Printable certificate #${certificate.id}`} />
+      ) : (
+        <p>Rendering certificate...</p>
+      )}
+      <div className="queue-actions">
+        <button className="btn btn-small" onClick={() => handleDownload('pdf')} disabled={!canvas}>
+          Download PDF
+        </button>
+        <button className="btn btn-small btn-secondary" onClick={() => handleDownload('png')} disabled={!canvas}>
+          Download PNG
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PrintableCertificate;
@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+import { RequestStatus, REQUEST_STATUS_LABELS, CertificationRequestView } from '../types';
+import { syncEventIndex, getIndexedEvents } from '../indexer';
+import { readEvidence } from '../evidence';
+import TxLink from './TxLink';
+
+const PAGE_SIZE = 5;
+
+interface RequestQueueProps {
+  contract: CertificateContract;
+  account: string;
+  issuerProfessions: string[];
+  paused: boolean;
+  onProcessed: (requestId: number, status: RequestStatus) => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function RequestQueue({
+  contract,
+  account,
+  issuerProfessions,
+  paused,
+  onProcessed,
+  onError,
+  onSuccess
+}: RequestQueueProps) {
+  const [requestIds, setRequestIds] = useState<number[]>([]);
+  const [closedIds, setClosedIds] = useState<Set<number>>(new Set());
+  const [requestTxHashes, setRequestTxHashes] = useState<Record<number, string>>({});
+  const [requests, setRequests] = useState<CertificationRequestView[]>([]);
+  const [page, setPage] = useState(0);
+  const [unprocessedOnly, setUnprocessedOnly] = useState(true);
+  const [loading, setLoading] = useState('');
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [evidence, setEvidence] = useState<Record<number, string>>({});
+
+  const visibleIds = unprocessedOnly ? requestIds.filter(id => !closedIds.has(id)) : requestIds;
+  const pageCount = Math.max(1, Math.ceil(visibleIds.length / PAGE_SIZE));
+
+  // Requests and their decisions are served from the local event index, newest first
+  const loadQueue = async () => {
+    try {
+      setLoading('queue');
+
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      const [requested, decisions, rejections] = await Promise.all([
+        getIndexedEvents(deployment, 'CertificationRequested'),
+        getIndexedEvents(deployment, 'CertificationDecisionRequested'),
+        getIndexedEvents(deployment, 'CertificationRejected')
+      ]);
+
+      const closed = new Set<number>();
+      for (const event of [...decisions, ...rejections]) closed.add(event.requestId);
+
+      const txHashes: Record<number, string> = {};
+      for (const event of requested) txHashes[event.requestId] = event.transactionHash;
+
+      const ids = requested.map(event => event.requestId).reverse();
+
+      setRequestIds(ids);
+      setClosedIds(closed);
+      setRequestTxHashes(txHashes);
+    } catch (error: any) {
+      console.error('Queue load error:', error);
+      onError(`Failed to load request queue: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const loadPage = async () => {
+    const pageIds = visibleIds.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+    try {
+      const rows = await Promise.all(pageIds.map(async (id): Promise<CertificationRequestView> => {
+        const [request, status] = await Promise.all([
+          contract.certificationRequests(id),
+          contract.requestStatus(id)
+        ]);
+        return {
+          id,
+          applicant: request.applicant,
+          profession: request.profession,
+          evidenceHash: request.evidenceHash,
+          evidenceURI: request.evidenceURI,
+          evidenceRecipient: request.evidenceRecipient,
+          requestTime: Number(request.requestTime),
+          isProcessed: request.isProcessed,
+          isApproved: request.isApproved,
+          status: Number(status) as RequestStatus
+        };
+      }));
+      setRequests(rows);
+    } catch (error: any) {
+      console.error('Queue page error:', error);
+      onError(`Failed to load requests: ${error.message}`);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [contract]);
+
+  useEffect(() => {
+    loadPage();
+  }, [requestIds, closedIds, page, unprocessedOnly]);
+
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [pageCount]);
+
+  // Evidence is encrypted to the recipient issuer's key, so only that issuer can open it
+  const handleDecryptEvidence = async (request: CertificationRequestView) => {
+    try {
+      setLoading(`evidence-${request.id}`);
+      const plaintext = await readEvidence(
+        { contentHash: request.evidenceHash, uri: request.evidenceURI, recipient: request.evidenceRecipient },
+        contract.runner as ethers.Signer
+      );
+      setEvidence(prev => ({ ...prev, [request.id]: plaintext }));
+    } catch (error: any) {
+      console.error('Evidence decrypt error:', error);
+      onError(`Could not open evidence: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleApprove = async (id: number) => {
+    try {
+      setLoading(`approve-${id}`);
+      await sendTransaction(contract, { label: `Process request #${id}` }, contract.processCertificationRequest, id);
+
+      onProcessed(id, RequestStatus.AwaitingDecryption);
+      onSuccess(`Request #${id} submitted for encrypted evaluation`);
+      await loadQueue();
+    } catch (error: any) {
+      console.error('Approve error:', error);
+      onError(`Approval failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent, id: number) => {
+    e.preventDefault();
+
+    try {
+      setLoading(`reject-${id}`);
+      await sendTransaction(
+        contract,
+        { label: `Reject request #${id}` },
+        contract.rejectCertificationRequest,
+        id,
+        rejectReason
+      );
+
+      onProcessed(id, RequestStatus.Rejected);
+      onSuccess(`Request #${id} rejected`);
+      setRejectingId(null);
+      setRejectReason('');
+      await loadQueue();
+    } catch (error: any) {
+      console.error('Reject error:', error);
+      onError(`Rejection failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="request-queue">
+      <div className="queue-toolbar">
+        <label className="checkbox-group">
+          <input
+            type="checkbox"
+            checked={unprocessedOnly}
+            onChange={(e) => {
+              setUnprocessedOnly(e.target.checked);
+              setPage(0);
+            }}
+          />
+          Unprocessed only
+        </label>
+        <button className="btn btn-small" onClick={loadQueue} disabled={loading === 'queue'}>
+          {loading === 'queue' ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {requests.length === 0 ? (
+        <p>No requests in queue.</p>
+      ) : (
+        requests.map((request) => (
+          <div key={request.id} className="certificate-item">
+            <div className="certificate-title">Request #{request.id}</div>
+            <div className="queue-details">
+              <strong>Applicant:</strong> {`${request.applicant.slice(0, 6)}...${request.applicant.slice(-4)}`}<br />
+              <strong>Profession:</strong> {request.profession}<br />
+              <strong>Requested:</strong> {new Date(request.requestTime * 1000).toLocaleString()}<br />
+              <strong>Status:</strong> {REQUEST_STATUS_LABELS[request.status]}
+              {requestTxHashes[request.id] && (
+                <>
+                  <br />
+                  <strong>Tx:</strong>{' '}
+                  <TxLink hash={requestTxHashes[request.id]}>
+                    {`${requestTxHashes[request.id].slice(0, 10)}...`}
+                  </TxLink>
+                </>
+              )}
+            </div>
+
+            {evidence[request.id] !== undefined ? (
+              <div className="revealed-values">
+                <strong>Evidence:</strong> {evidence[request.id]}
+                <div className="revealed-note">Decrypted locally, visible only to you</div>
+              </div>
+            ) : request.evidenceRecipient.toLowerCase() === account.toLowerCase() ? (
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() => handleDecryptEvidence(request)}
+                disabled={loading === `evidence-${request.id}`}
+              >
+                {loading === `evidence-${request.id}` ? 'Decrypting...' : 'Decrypt Evidence'}
+              </button>
+            ) : (
+              <div className="queue-note">Evidence encrypted for another issuer</div>
+            )}
+
+            {request.status === RequestStatus.Pending && !issuerProfessions.includes(request.profession) && (
+              <div className="queue-note">Outside your authorized professions</div>
+            )}
+
+            {request.status === RequestStatus.Pending && issuerProfessions.includes(request.profession) && (
+              rejectingId === request.id ? (
+                <form onSubmit={(e) => handleReject(e, request.id)}>
+                  <input
+                    type="text"
+                    value={rejectReason}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                    placeholder="Reason for rejection"
+                    required
+                  />
+                  <div className="queue-actions">
+                    <button type="submit" className="btn btn-small btn-danger" disabled={loading === `reject-${request.id}` || paused}>
+                      {loading === `reject-${request.id}` ? 'Rejecting...' : 'Confirm Reject'}
+                    </button>
+                    <button type="button" className="btn btn-small btn-secondary" onClick={() => setRejectingId(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="queue-actions">
+                  <button
+                    className="btn btn-small"
+                    onClick={() => handleApprove(request.id)}
+                    disabled={loading === `approve-${request.id}` || paused}
+                  >
+                    {loading === `approve-${request.id}` ? 'Submitting...' : 'Approve'}
+                  </button>
+                  <button
+                    className="btn btn-small btn-danger"
+                    disabled={paused}
+                    onClick={() => {
+                      setRejectingId(request.id);
+                      setRejectReason('');
+                    }}
+                  >
+                    Reject
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="queue-pagination">
+        <button className="btn btn-small btn-secondary" onClick={() => setPage(page - 1)} disabled={page === 0}>
+          Previous
+        </button>
+        <span>Page {page + 1} of {pageCount}</span>
+        <button className="btn btn-small btn-secondary" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RequestQueue;
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { buildVerificationUrl } from '../verification';
+
+interface ShareCertificateProps {
+  certificateId: number;
+  credentialHash: string;
+}
+
+function ShareCertificate({ certificateId, credentialHash }: ShareCertificateProps) {
+  const [qrCode, setQrCode] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const url = buildVerificationUrl(certificateId, credentialHash);
+
+  useEffect(() => {
+    QRCode.toDataURL(url, { margin: 1, width: 180 })
+      .then(setQrCode)
+      .catch((error) => console.error('QR code error:', error));
+  }, [url]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  return (
+    <div className="share-certificate">
+      <div className="share-link">
+        <input type="text" value={url} readOnly onFocus={(e) => e.target.select()} />
+        <button className="btn btn-small" onClick={handleCopy}>
+          {copied ? 'Copied!' : 'Copy Link'}
+        </button>
+      </div>
+      {qrCode && <img className="share-qr" src={qrCode} alt={`Verification QR code for certificate #${certificateId}`} />}
+    </div>
+  );
+}
+
+export default ShareCertificate;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract } from '../contract';
+import { sendTransaction, describeTxError } from '../transactions';
+
+const DEFAULT_GRANT_DAYS = 7;
+
+// datetime-local inputs want local time without a zone suffix
+const toDateTimeLocal = (date: Date): string => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+interface ShareWithVerifierProps {
+  contract: CertificateContract;
+  certificateId: number;
+  paused: boolean;
+  onClose: () => void;
+  onError: (message: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+function ShareWithVerifier({ contract, certificateId, paused, onClose, onError, onSuccess }: ShareWithVerifierProps) {
+  const [verifier, setVerifier] = useState('');
+  const [shareScore, setShareScore] = useState(false);
+  const [shareLevel, setShareLevel] = useState(true);
+  const [expiresAt, setExpiresAt] = useState(
+    toDateTimeLocal(new Date(Date.now() + DEFAULT_GRANT_DAYS * 24 * 60 * 60 * 1000))
+  );
+  const [loading, setLoading] = useState(false);
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(verifier)) {
+      onError('Please enter a valid verifier address');
+      return;
+    }
+    if (!shareScore && !shareLevel) {
+      onError('Select at least one field to share');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const expiry = Math.floor(new Date(expiresAt).getTime() / 1000);
+      await sendTransaction(
+        contract,
+        { label: `Grant access to certificate #${certificateId}` },
+        contract.grantAccess,
+        certificateId,
+        verifier,
+        shareScore,
+        shareLevel,
+        expiry
+      );
+
+      onSuccess(`Access to certificate #${certificateId} granted until ${new Date(expiry * 1000).toLocaleString()}`);
+      onClose();
+    } catch (error: any) {
+      console.error('Grant access error:', error);
+      onError(`Granting access failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form className="share-verifier" onSubmit={handleGrant}>
+      <div className="form-group">
+        <label>Verifier Address</label>
+        <input
+          type="text"
+          value={verifier}
+          onChange={(e) => setVerifier(e.target.value)}
+          placeholder="0x..."
+          required
+        />
+      </div>
+
+      <div className="form-group checkbox-group">
+        <label>
+          <input type="checkbox" checked={shareScore} onChange={(e) => setShareScore(e.target.checked)} />
+          Score
+        </label>
+        <label>
+          <input type="checkbox" checked={shareLevel} onChange={(e) => setShareLevel(e.target.checked)} />
+          Level
+        </label>
+      </div>
+
+      <div className="form-group">
+        <label>Access Expires</label>
+        <input
+          type="datetime-local"
+          value={expiresAt}
+          min={toDateTimeLocal(new Date())}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="queue-actions">
+        <button type="submit" className="btn btn-small" disabled={loading || paused}>
+          {loading ? 'Granting...' : 'Grant Access'}
+        </button>
+        <button type="button" className="btn btn-small btn-secondary" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ShareWithVerifier;
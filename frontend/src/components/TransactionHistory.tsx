@@ -0,0 +1,61 @@
+import { clearTransactionHistory, TransactionStatus, useTransactions } from '../transactions';
+import TxLink from './TxLink';
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  estimating: 'Estimating gas',
+  pending: 'Pending',
+  mined: 'Confirmed',
+  failed: 'Failed'
+};
+
+interface TransactionHistoryProps {
+  account: string;
+}
+
+function TransactionHistory({ account }: TransactionHistoryProps) {
+  const { transactions } = useTransactions(account);
+
+  if (transactions.length === 0) {
+    return <p>No transactions yet.</p>;
+  }
+
+  return (
+    <div className="transaction-history">
+      <div className="certificate-list">
+        {transactions.map((tx) => (
+          <div key={tx.id} className="certificate-item">
+            <div className="certificate-title">
+              {tx.label} <span className={`tx-status tx-${tx.status}`}>{STATUS_LABELS[tx.status]}</span>
+            </div>
+            <div className="queue-details">
+              <strong>Sent:</strong> {new Date(tx.submittedAt).toLocaleString()}<br />
+              {tx.gasEstimate && (
+                <>
+                  <strong>Estimated gas:</strong> {Number(tx.gasEstimate).toLocaleString()}
+                  {tx.costEstimate && ` (up to ${Number(tx.costEstimate).toFixed(6)} ETH)`}<br />
+                </>
+              )}
+              {tx.fee && (
+                <>
+                  <strong>Fee paid:</strong> {Number(tx.fee).toFixed(6)} ETH<br />
+                </>
+              )}
+              {tx.hash && (
+                <>
+                  <strong>Transaction:</strong> <TxLink hash={tx.hash}>{`${tx.hash.slice(0, 10)}...${tx.hash.slice(-8)}`}</TxLink><br />
+                </>
+              )}
+              {tx.error && <span className="tx-error">{tx.error}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button className="btn btn-small btn-secondary" onClick={clearTransactionHistory}>
+        Clear History
+      </button>
+    </div>
+  );
+}
+
+export default TransactionHistory;
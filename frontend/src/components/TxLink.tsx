@@ -0,0 +1,20 @@
+import React from 'react';
+import { getActiveNetwork } from '../contract';
+import { explorerTxUrl } from '../networks';
+
+interface TxLinkProps {
+  hash: string;
+  children: React.ReactNode;
+}
+
+// Links to the active network's block explorer; local chains have none, so the hash is shown as a tooltip
+function TxLink({ hash, children }: TxLinkProps) {
+  const url = explorerTxUrl(getActiveNetwork(), hash);
+  return url ? (
+    <a href={url} target="_blank" rel="noreferrer">{children}</a>
+  ) : (
+    <span title={hash}>{children}</span>
+  );
+}
+
+export default TxLink;
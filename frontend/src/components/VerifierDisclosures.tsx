@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, fetchDisclosures, getContractDeployment } from '../contract';
+import { syncEventIndex, getDisclosureIds } from '../indexer';
+import { userDecrypt } from '../fhevm';
+import { sendTransaction, describeTxError } from '../transactions';
+import { Disclosure, DISCLOSURE_FIELD_LABELS } from '../types';
+
+interface VerifierDisclosuresProps {
+  contract: CertificateContract;
+  account: string;
+  onError: (message: string) => void;
+}
+
+// Verifier side: only the yes/no answer is decrypted, never the underlying score or level. The answer is
+// claimed on-chain first, which the contract refuses once the holder revokes the disclosure
+function VerifierDisclosures({ contract, account, onError }: VerifierDisclosuresProps) {
+  const [disclosures, setDisclosures] = useState<Disclosure[]>([]);
+  const [answers, setAnswers] = useState<Record<number, boolean>>({});
+  const [loading, setLoading] = useState('');
+
+  const loadDisclosures = async () => {
+    try {
+      setLoading('disclosures');
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      setDisclosures(await fetchDisclosures(contract, await getDisclosureIds(deployment, account, 'verifier')));
+    } catch (error: any) {
+      console.error('Shared disclosure load error:', error);
+      onError(`Failed to load shared disclosures: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    setAnswers({});
+    loadDisclosures();
+  }, [contract, account]);
+
+  const handleDecrypt = async (id: number) => {
+    try {
+      setLoading(`decrypt-${id}`);
+      const signer = contract.runner as ethers.Signer;
+      if (!signer.provider) throw new Error('Wallet not connected');
+      const network = await signer.provider.getNetwork();
+
+      const receipt = await sendTransaction(
+        contract,
+        { label: `Claim disclosure #${id} answer`, key: `claim-disclosure-${id}` },
+        contract.claimDisclosure,
+        id
+      );
+      const claimed = receipt.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'DisclosureClaimed');
+      if (!claimed) throw new Error('The claim did not return an answer');
+
+      const [answer] = await userDecrypt(Number(network.chainId), await contract.getAddress(), signer, [claimed.args.result]);
+      setAnswers(prev => ({ ...prev, [id]: answer === 1n }));
+    } catch (error: any) {
+      console.error('Disclosure decrypt error:', error);
+      onError(`Decrypting disclosure failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  return (
+    <div className="verifier-disclosures">
+      {loading === 'disclosures' ? (
+        <p>Loading shared disclosures...</p>
+      ) : disclosures.length === 0 ? (
+        <p>No disclosures have been shared with you.</p>
+      ) : (
+        <div className="certificate-list">
+          {disclosures.map((disclosure) => (
+            <div key={disclosure.id} className="certificate-item">
+              <div className="queue-details">
+                <strong>Certificate #{disclosure.certificateId}:</strong>{' '}
+                {DISCLOSURE_FIELD_LABELS[disclosure.field]} ≥ {disclosure.threshold}?<br />
+                <strong>Holder:</strong> {`${disclosure.holder.slice(0, 6)}...${disclosure.holder.slice(-4)}`}
+              </div>
+              {disclosure.isRevoked ? (
+                <span className="issuer-inactive">Revoked by holder</span>
+              ) : answers[disclosure.id] !== undefined ? (
+                <span className={answers[disclosure.id] ? 'issuer-active' : 'issuer-inactive'}>
+                  {answers[disclosure.id] ? 'Yes ✅' : 'No ❌'}
+                </span>
+              ) : (
+                <button
+                  className="btn btn-small"
+                  onClick={() => handleDecrypt(disclosure.id)}
+                  disabled={loading === `decrypt-${disclosure.id}`}
+                >
+                  {loading === `decrypt-${disclosure.id}` ? 'Decrypting...' : 'Decrypt Answer'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VerifierDisclosures;
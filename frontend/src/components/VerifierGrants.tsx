@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, getContractDeployment } from '../contract';
+import { syncEventIndex, getAccessHistory, activeGrants } from '../indexer';
+import { userDecrypt } from '../fhevm';
+import { sendTransaction, describeTxError } from '../transactions';
+import { AccessGrant } from '../types';
+
+interface RevealedGrant {
+  score?: number;
+  level?: number;
+}
+
+interface VerifierGrantsProps {
+  contract: CertificateContract;
+  account: string;
+  onError: (message: string) => void;
+}
+
+// Raw values holders have shared with this account. Each reveal claims them on-chain, which the contract
+// refuses once the grant expires or is revoked; values claimed before that stay decryptable by the verifier
+function VerifierGrants({ contract, account, onError }: VerifierGrantsProps) {
+  const [grants, setGrants] = useState<AccessGrant[]>([]);
+  const [revealed, setRevealed] = useState<Record<number, RevealedGrant>>({});
+  const [loading, setLoading] = useState('');
+
+  const loadGrants = async () => {
+    try {
+      setLoading('grants');
+      const deployment = getContractDeployment(contract);
+      await syncEventIndex(deployment, contract);
+      setGrants(activeGrants(await getAccessHistory(deployment, account, 'verifier')));
+    } catch (error: any) {
+      console.error('Verifier grant load error:', error);
+      onError(`Failed to load shared values: ${error.message}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  useEffect(() => {
+    setRevealed({});
+    loadGrants();
+  }, [contract, account]);
+
+  const handleReveal = async (grant: AccessGrant) => {
+    try {
+      setLoading(`reveal-${grant.certificateId}`);
+      const signer = contract.runner as ethers.Signer;
+      if (!signer.provider) throw new Error('Wallet not connected');
+      const network = await signer.provider.getNetwork();
+
+      const receipt = await sendTransaction(
+        contract,
+        { label: `Claim shared values of certificate #${grant.certificateId}`, key: `claim-${grant.certificateId}` },
+        contract.claimAccess,
+        grant.certificateId
+      );
+      const claimed = receipt.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'AccessClaimed');
+      if (!claimed) throw new Error('The claim did not return any values');
+
+      const handles: string[] = [];
+      if (grant.score) handles.push(claimed.args.score);
+      if (grant.level) handles.push(claimed.args.level);
+
+      const values = await userDecrypt(Number(network.chainId), await contract.getAddress(), signer, handles);
+      setRevealed(prev => ({
+        ...prev,
+        [grant.certificateId]: {
+          score: grant.score ? Number(values[0]) : undefined,
+          level: grant.level ? Number(values[grant.score ? 1 : 0]) : undefined
+        }
+      }));
+    } catch (error: any) {
+      console.error('Shared value reveal error:', error);
+      onError(`Decrypting shared values failed: ${describeTxError(error)}`);
+    } finally {
+      setLoading('');
+    }
+  };
+
+  if (loading === 'grants' && grants.length === 0) return <p>Loading shared values...</p>;
+  if (grants.length === 0) return null;
+
+  return (
+    <div className="certificate-list">
+      {grants.map((grant) => (
+        <div key={grant.certificateId} className="certificate-item">
+          <div className="queue-details">
+            <strong>Certificate #{grant.certificateId}</strong><br />
+            <strong>Holder:</strong> {`${grant.holder.slice(0, 6)}...${grant.holder.slice(-4)}`}<br />
+            <strong>Access until:</strong> {new Date(grant.expiresAt * 1000).toLocaleString()}
+          </div>
+          {revealed[grant.certificateId] ? (
+            <div className="revealed-values">
+              {revealed[grant.certificateId].score !== undefined && (
+                <><strong>Score:</strong> {revealed[grant.certificateId].score} </>
+              )}
+              {revealed[grant.certificateId].level !== undefined && (
+                <><strong>Level:</strong> {revealed[grant.certificateId].level}</>
+              )}
+              <div className="revealed-note">Decrypted locally, visible only to you</div>
+            </div>
+          ) : (
+            <button
+              className="btn btn-small"
+              onClick={() => handleReveal(grant)}
+              disabled={loading === `reveal-${grant.certificateId}`}
+            >
+              {loading === `reveal-${grant.certificateId}` ? 'Decrypting...' : 'Decrypt Shared Values'}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default VerifierGrants;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { parseCredential, verifyCredential, CredentialVerification } from '../credential';
+
+// Read-only: checks a pasted credential against the contract without a wallet
+function VerifyCredential() {
+  const [json, setJson] = useState('');
+  const [result, setResult] = useState<CredentialVerification | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setResult(null);
+    setError('');
+
+    try {
+      setLoading(true);
+      setResult(await verifyCredential(parseCredential(json)));
+    } catch (error: any) {
+      console.error('Credential verification error:', error);
+      setError(`Credential could not be verified: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="card-icon icon-verify">📄</div>
+        <h3>Verify Credential</h3>
+      </div>
+
+      <form onSubmit={handleVerify}>
+        <div className="form-group">
+          <label>Verifiable Credential (JSON)</label>
+          <textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            placeholder='{"@context": ["https://www.w3.org/2018/credentials/v1"], ...}'
+            rows={6}
+            required
+          />
+        </div>
+
+        <button type="submit" className="btn" disabled={loading}>
+          {loading ? 'Verifying...' : 'Verify Credential'}
+        </button>
+      </form>
+
+      {error && <div className="error">{error}</div>}
+
+      {result && (
+        <div className="certificate-details">
+          <div className={`status-notice ${result.valid ? 'status-valid' : 'status-revoked'}`}>
+            {result.valid
+              ? 'Credential verified: signed by the holder and matching a valid on-chain certificate ✅'
+              : 'Credential failed verification ❌'}
+          </div>
+          <ul className="credential-checks">
+            {result.checks.map((check) => (
+              <li key={check.label} className={check.passed ? 'issuer-active' : 'issuer-inactive'}>
+                {check.passed ? '✓' : '✗'} {check.label}
+                {check.detail && <>: {check.detail}</>}
+              </li>
+            ))}
+          </ul>
+          {result.certificate && (
+            <>
+              <p><strong>Profession:</strong> {result.certificate.profession}</p>
+              <p><strong>Issuer:</strong> {result.certificate.issuerOrganization || 'Unknown organization'}</p>
+              <p><strong>Expiry Date:</strong> {new Date(result.certificate.expiryDate * 1000).toLocaleDateString()}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VerifyCredential;
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { getReadContract, isSupportedChain, lookupCertificate } from '../contract';
+import { getNetwork } from '../networks';
+import { Certificate, CertificateStatus } from '../types';
+import CertificateStatusNotice from './CertificateStatusNotice';
+import { VerificationLink, isWellFormedHash, hashesMatch } from '../verification';
+import '../App.css';
+
+type VerificationOutcome =
+  | 'loading'
+  | 'verified'
+  | 'revoked'
+  | 'expired'
+  | 'suspended'
+  | 'mismatch'
+  | 'malformed'
+  | 'missing'
+  | 'unsupported'
+  | 'error';
+
+// A matching hash only proves the link is authentic; the certificate must also still be valid
+const STATUS_OUTCOMES: Partial<Record<CertificateStatus, VerificationOutcome>> = {
+  [CertificateStatus.Valid]: 'verified',
+  [CertificateStatus.Revoked]: 'revoked',
+  [CertificateStatus.Expired]: 'expired',
+  [CertificateStatus.Suspended]: 'suspended'
+};
+
+interface VerifyPageProps {
+  link: VerificationLink;
+}
+
+// Read-only page opened from a shared link; it never asks for accounts or signatures
+function VerifyPage({ link }: VerifyPageProps) {
+  const [outcome, setOutcome] = useState<VerificationOutcome>('loading');
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [error, setError] = useState('');
+  const network = getNetwork(link.chainId);
+
+  useEffect(() => {
+    runVerification();
+  }, [link.certificateId, link.expectedHash, link.chainId]);
+
+  const runVerification = async () => {
+    if (!isWellFormedHash(link.expectedHash)) {
+      setOutcome('malformed');
+      return;
+    }
+    if (!isSupportedChain(link.chainId)) {
+      setOutcome('unsupported');
+      return;
+    }
+
+    try {
+      setOutcome('loading');
+      const cert = await lookupCertificate(getReadContract(link.chainId), link.certificateId);
+      if (!cert) {
+        setOutcome('missing');
+        return;
+      }
+
+      setCertificate(cert);
+      if (!hashesMatch(cert.credentialHash, link.expectedHash)) {
+        setOutcome('mismatch');
+        return;
+      }
+      setOutcome(STATUS_OUTCOMES[cert.status] ?? 'missing');
+    } catch (error: any) {
+      console.error('Link verification error:', error);
+      setError(error.message);
+      setOutcome('error');
+    }
+  };
+
+  return (
+    <div className="app">
+      <div className="container">
+        <div className="header">
+          <h1>Certificate Verification</h1>
+          <p className="subtitle">
+            Certificate #{link.certificateId}{network && ` · ${network.name}`}
+          </p>
+        </div>
+
+        <div className="card verify-page">
+          {outcome === 'loading' && <p>Verifying certificate on-chain...</p>}
+
+          {outcome === 'malformed' && (
+            <div className="error">This verification link is incomplete or malformed. Ask the holder for a new link.</div>
+          )}
+
+          {outcome === 'mismatch' && (
+            <div className="error">
+              The credential hash in this link does not match the certificate on-chain.
+              The link may have been tampered with or points to a different certificate.
+            </div>
+          )}
+
+          {outcome === 'unsupported' && (
+            <div className="error">This link points to chain {link.chainId}, which this site has no deployment for.</div>
+          )}
+
+          {outcome === 'missing' && (
+            <div className="error">Certificate #{link.certificateId} was never issued.</div>
+          )}
+
+          {outcome === 'error' && <div className="error">Verification failed: {error}</div>}
+
+          {outcome === 'verified' && <div className="success">Certificate verified: the link matches the on-chain record ✅</div>}
+
+          {outcome === 'revoked' && (
+            <div className="error">This link matches the on-chain record, but the issuer has revoked the certificate.</div>
+          )}
+
+          {outcome === 'expired' && (
+            <div className="error">This link matches the on-chain record, but the certificate has expired.</div>
+          )}
+
+          {outcome === 'suspended' && (
+            <div className="error">
+              This link matches the on-chain record, but the certificate is suspended while the registry is paused.
+            </div>
+          )}
+
+          {certificate && ['verified', 'revoked', 'expired', 'suspended'].includes(outcome) && (
+            <div className="certificate-details">
+              <h4>Certificate Details</h4>
+              <CertificateStatusNotice certificate={certificate} />
+              <p><strong>Holder:</strong> {certificate.holder}</p>
+              <p><strong>Profession:</strong> {certificate.profession}</p>
+              <p><strong>Issue Date:</strong> {new Date(certificate.issueDate * 1000).toLocaleDateString()}</p>
+              <p><strong>Expiry Date:</strong> {new Date(certificate.expiryDate * 1000).toLocaleDateString()}</p>
+              <p><strong>Issuer:</strong> {certificate.issuerOrganization || 'Unknown organization'}</p>
+              <p>
+                <strong>Issuer Status:</strong>{' '}
+                <span className={certificate.issuerActive ? 'issuer-active' : 'issuer-inactive'}>
+                  {certificate.issuerActive ? 'Verified, still authorized' : 'No longer authorized'}
+                </span>
+              </p>
+              <p className="hash"><strong>Credential Hash:</strong> {certificate.credentialHash}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VerifyPage;
@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+
+// Off-chain storage for encrypted evidence. Content is addressed by its keccak256 hash,
+// which is also what the contract records, so any backend can be checked against the chain.
+export interface ContentStore {
+  put: (content: Uint8Array) => Promise<string>;
+  get: (uri: string) => Promise<Uint8Array>;
+}
+
+const LOCAL_STORAGE_PREFIX = "evidence:";
+
+export const hashContent = (content: Uint8Array): string => ethers.keccak256(content);
+
+const hashFromUri = (uri: string, scheme: string): string => {
+  if (!uri.startsWith(scheme)) throw new Error(`Unsupported content URI: ${uri}`);
+  return uri.slice(scheme.length);
+};
+
+// Keeps content for the lifetime of the page; meant for tests and local experiments
+export const createInMemoryContentStore = (): ContentStore => {
+  const contents = new Map<string, Uint8Array>();
+
+  return {
+    put: async (content) => {
+      const hash = hashContent(content);
+      contents.set(hash, content);
+      return `memory://${hash}`;
+    },
+    get: async (uri) => {
+      const content = contents.get(hashFromUri(uri, 'memory://'));
+      if (!content) throw new Error(`Content not found: ${uri}`);
+      return content;
+    }
+  };
+};
+
+// Persists in this browser's localStorage, so it only suits single-machine development
+export const createLocalContentStore = (): ContentStore => ({
+  put: async (content) => {
+    const hash = hashContent(content);
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + hash, ethers.hexlify(content));
+    return `local://${hash}`;
+  },
+  get: async (uri) => {
+    const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + hashFromUri(uri, 'local://'));
+    if (!stored) throw new Error(`Content not found in this browser: ${uri}`);
+    return ethers.getBytes(stored);
+  }
+});
+
+// Any service that stores a body with PUT <baseUrl>/<hash> and serves it back with GET
+export const createHttpContentStore = (baseUrl: string): ContentStore => ({
+  put: async (content) => {
+    const url = `${baseUrl.replace(/\/$/, '')}/${hashContent(content)}`;
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(content)
+    });
+    if (!response.ok) throw new Error(`Evidence upload failed (${response.status})`);
+    return url;
+  },
+  get: async (uri) => {
+    const response = await fetch(uri);
+    if (!response.ok) throw new Error(`Evidence download failed (${response.status})`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+});
+
+let contentStore: ContentStore | null = null;
+
+// VITE_EVIDENCE_STORE_URL selects the HTTP backend; without it evidence stays in this browser
+export const getContentStore = (): ContentStore => {
+  if (!contentStore) {
+    const url = import.meta.env.VITE_EVIDENCE_STORE_URL;
+    contentStore = url ? createHttpContentStore(url) : createLocalContentStore();
+  }
+  return contentStore;
+};
+
+// Refuses any content that does not match the hash recorded on-chain
+export const fetchVerifiedContent = async (
+  uri: string,
+  expectedHash: string,
+  store: ContentStore = getContentStore()
+): Promise<Uint8Array> => {
+  const content = await store.get(uri);
+  if (hashContent(content).toLowerCase() !== expectedHash.toLowerCase()) {
+    throw new Error('Evidence does not match the hash recorded on-chain');
+  }
+  return content;
+};
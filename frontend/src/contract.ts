@@ -0,0 +1,173 @@
+import { ethers } from 'ethers';
+import { Certificate, CertificateStatus, Disclosure, DisclosureField, PauseState, Revocation } from './types';
+import { DEFAULT_CHAIN_ID, NetworkConfig, getNetwork } from './networks';
+import { PrivacyProfessionalCertificate, PrivacyProfessionalCertificate__factory } from './typechain';
+import { getIndexedEvents, syncEventIndex } from './indexer';
+import deployments from './deployments.json';
+
+// Typed bindings generated from the Hardhat artifact; src/typechain is not committed, `npm run compile` in the root writes it
+export type CertificateContract = PrivacyProfessionalCertificate;
+
+// Written by scripts/deploy.js, one entry per chain ID
+export interface Deployment {
+  network: string;
+  chainId: number;
+  address: string;
+  // The ABI the contract was deployed with; the app itself calls it through the generated bindings
+  abi: ethers.JsonFragment[];
+  // Block the contract was deployed in; the event index never scans earlier history
+  blockNumber: number;
+}
+
+const DEPLOYMENTS = deployments as Record<string, Deployment>;
+
+export const getDeployment = (chainId: number): Deployment | undefined => DEPLOYMENTS[String(chainId)];
+
+// A chain is supported once it is both in the network registry and deployed to
+export const isSupportedChain = (chainId: number): boolean =>
+  getNetwork(chainId) !== undefined && getDeployment(chainId) !== undefined;
+
+export const supportedNetworks = (): NetworkConfig[] =>
+  Object.values(DEPLOYMENTS).map(d => getNetwork(d.chainId)).filter((n): n is NetworkConfig => n !== undefined);
+
+let activeChainId = DEFAULT_CHAIN_ID;
+
+// The chain the connected wallet is on, or the default one for read-only pages
+export const getActiveChainId = (): number => activeChainId;
+
+export const getActiveNetwork = (): NetworkConfig => {
+  const network = getNetwork(activeChainId);
+  if (!network) throw new Error(`Chain ${activeChainId} is not in the network registry`);
+  return network;
+};
+
+export const getActiveDeployment = (): Deployment => {
+  const deployment = getDeployment(activeChainId);
+  if (!deployment) throw new Error(`No contract is deployed on ${getNetwork(activeChainId)?.name ?? `chain ${activeChainId}`}`);
+  return deployment;
+};
+
+export const setActiveChain = (chainId: number) => {
+  if (!isSupportedChain(chainId)) throw new Error(`Chain ${chainId} is not supported`);
+  activeChainId = chainId;
+};
+
+const contractDeployments = new WeakMap<CertificateContract, Deployment>();
+
+export const createContract = (runner: ethers.ContractRunner, chainId: number = activeChainId): CertificateContract => {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new Error(`No contract is deployed on chain ${chainId}`);
+  const contract = PrivacyProfessionalCertificate__factory.connect(deployment.address, runner);
+  contractDeployments.set(contract, deployment);
+  return contract;
+};
+
+// The deployment a contract instance was bound to when it was created, whatever chain is active now
+export const getContractDeployment = (contract: CertificateContract): Deployment => {
+  const deployment = contractDeployments.get(contract);
+  if (!deployment) throw new Error('Contract instance was not created by createContract');
+  return deployment;
+};
+
+export const toCertificate = (
+  id: number,
+  result: PrivacyProfessionalCertificate.CertificateInfoStructOutput,
+  status: CertificateStatus = CertificateStatus.Valid
+): Certificate => ({
+  id,
+  holder: result.holder,
+  profession: result.profession,
+  isValid: result.isValid,
+  issueDate: Number(result.issueDate),
+  expiryDate: Number(result.expiryDate),
+  issuer: result.issuer,
+  issuerOrganization: result.issuerOrganization,
+  issuerActive: result.issuerActive,
+  credentialHash: result.credentialHash,
+  renewalRequested: result.renewalRequested,
+  status
+});
+
+const readContracts = new Map<number, CertificateContract>();
+
+// Wallet-less contract instance for view calls; signing always goes through the connected wallet
+export const getReadContract = (chainId: number = activeChainId): CertificateContract => {
+  let contract = readContracts.get(chainId);
+  if (!contract) {
+    const network = getNetwork(chainId);
+    if (!network) throw new Error(`Chain ${chainId} is not in the network registry`);
+    contract = createContract(new ethers.JsonRpcProvider(network.rpcUrl, chainId, { staticNetwork: true }), chainId);
+    readContracts.set(chainId, contract);
+  }
+  return contract;
+};
+
+// Reason and time of the latest revocation, taken from the indexed CertificateRevoked events
+export const fetchRevocation = async (
+  contract: CertificateContract,
+  certificateId: number
+): Promise<Revocation | undefined> => {
+  const deployment = getContractDeployment(contract);
+  await syncEventIndex(deployment, contract);
+  const events = (await getIndexedEvents(deployment, 'CertificateRevoked')).filter(event => event.certificateId === certificateId);
+  const event = events[events.length - 1];
+  if (!event) return undefined;
+
+  const block = await contract.runner!.provider!.getBlock(event.blockNumber);
+  return { reason: event.reason, revokedAt: block!.timestamp };
+};
+
+// Resolves any certificate ID without reverting; null means it was never issued
+export const lookupCertificate = async (
+  contract: CertificateContract,
+  certificateId: number
+): Promise<Certificate | null> => {
+  const [status, info] = await contract.lookupCertificate(certificateId);
+  const certificateStatus = Number(status) as CertificateStatus;
+  if (certificateStatus === CertificateStatus.NonExistent) return null;
+
+  const cert = toCertificate(certificateId, info, certificateStatus);
+  if (certificateStatus === CertificateStatus.Revoked) {
+    cert.revocation = await fetchRevocation(contract, certificateId);
+  }
+  return cert;
+};
+
+const LOOKUP_BATCH_SIZE = 10;
+
+// Loads certificates a batch at a time; the provider coalesces each batch of calls into one JSON-RPC request
+export const lookupCertificateBatch = async (contract: CertificateContract, certificateIds: number[]): Promise<Certificate[]> => {
+  const certs: Certificate[] = [];
+  for (let i = 0; i < certificateIds.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = certificateIds.slice(i, i + LOOKUP_BATCH_SIZE);
+    const results = await Promise.all(batch.map((id) => lookupCertificate(contract, id)));
+    certs.push(...results.filter((cert): cert is Certificate => cert !== null));
+  }
+  return certs;
+};
+
+export const fetchDisclosures = (contract: CertificateContract, disclosureIds: number[]): Promise<Disclosure[]> =>
+  Promise.all(disclosureIds.map(async (id): Promise<Disclosure> => {
+    const result = await contract.getDisclosure(id);
+    return {
+      id,
+      certificateId: Number(result.certificateId),
+      holder: result.holder,
+      verifier: result.verifier,
+      field: Number(result.field) as DisclosureField,
+      threshold: Number(result.threshold),
+      createdAt: Number(result.createdAt),
+      isRevoked: result.isRevoked
+    };
+  }));
+
+export const fetchPauseState = async (contract: CertificateContract): Promise<PauseState> => {
+  const paused = await contract.paused();
+  if (!paused) return { paused, reason: '' };
+
+  const deployment = getContractDeployment(contract);
+  await syncEventIndex(deployment, contract);
+  const events = await getIndexedEvents(deployment, 'ContractPaused');
+  const event = events[events.length - 1];
+  return { paused, reason: event?.reason ?? '' };
+};
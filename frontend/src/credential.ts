@@ -0,0 +1,213 @@
+import { ethers } from 'ethers';
+import { getDeployment, getReadContract, lookupCertificate } from './contract';
+import { getNetwork } from './networks';
+import { buildVerificationUrl, hashesMatch } from './verification';
+import { Certificate, CertificateStatus } from './types';
+
+const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+const CREDENTIAL_TYPE = 'ProfessionalCertificateCredential';
+const STATUS_TYPE = 'PrivacyProfessionalCertificateStatus';
+const PROOF_TYPE = 'EthereumPersonalSignature2021';
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string; name: string };
+  issuanceDate: string;
+  expirationDate: string;
+  credentialSubject: {
+    id: string;
+    profession: string;
+    certificateId: number;
+    credentialHash: string;
+  };
+  credentialStatus: {
+    id: string;
+    type: string;
+    statusContract: string;
+    certificateId: number;
+  };
+  proof?: {
+    type: string;
+    created: string;
+    proofPurpose: string;
+    verificationMethod: string;
+    proofValue: string;
+  };
+}
+
+export interface CredentialCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  checks: CredentialCheck[];
+  certificate: Certificate | null;
+}
+
+export const toDidPkh = (chainId: number, address: string): string =>
+  `did:pkh:eip155:${chainId}:${ethers.getAddress(address)}`;
+
+// Returns null for anything that is not an eip155 did:pkh
+export const parseDidPkh = (did: string): { chainId: number; address: string } | null => {
+  const match = /^did:pkh:eip155:(\d+):(0x[0-9a-fA-F]{40})$/.exec(did);
+  return match ? { chainId: parseInt(match[1]), address: ethers.getAddress(match[2]) } : null;
+};
+
+const toIsoDate = (seconds: number): string => new Date(seconds * 1000).toISOString();
+
+// Key-sorted JSON so the signed bytes don't depend on property order after a round trip
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const signingPayload = (credential: VerifiableCredential): string => {
+  const { proof: _proof, ...unsigned } = credential;
+  return canonicalize(unsigned);
+};
+
+export const buildCredential = (certificate: Certificate, chainId: number): VerifiableCredential => {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new Error(`No contract is deployed on chain ${chainId}`);
+  const statusContract = `eip155:${chainId}:${deployment.address}`;
+  return {
+    '@context': [VC_CONTEXT],
+    id: `urn:${statusContract}:certificate:${certificate.id}`,
+    type: ['VerifiableCredential', CREDENTIAL_TYPE],
+    issuer: {
+      id: toDidPkh(chainId, certificate.issuer),
+      name: certificate.issuerOrganization
+    },
+    issuanceDate: toIsoDate(certificate.issueDate),
+    expirationDate: toIsoDate(certificate.expiryDate),
+    credentialSubject: {
+      id: toDidPkh(chainId, certificate.holder),
+      profession: certificate.profession,
+      certificateId: certificate.id,
+      credentialHash: certificate.credentialHash
+    },
+    credentialStatus: {
+      id: buildVerificationUrl(certificate.id, certificate.credentialHash, chainId),
+      type: STATUS_TYPE,
+      statusContract,
+      certificateId: certificate.id
+    }
+  };
+};
+
+// The holder's signature binds the document to their DID; the issuer's authority comes from the on-chain record
+export const signCredential = async (
+  signer: ethers.Signer,
+  credential: VerifiableCredential
+): Promise<VerifiableCredential> => {
+  const proofValue = await signer.signMessage(signingPayload(credential));
+  return {
+    ...credential,
+    proof: {
+      type: PROOF_TYPE,
+      created: new Date().toISOString(),
+      proofPurpose: 'assertionMethod',
+      verificationMethod: `${credential.credentialSubject.id}#blockchainAccountId`,
+      proofValue
+    }
+  };
+};
+
+export const parseCredential = (json: string): VerifiableCredential => {
+  let credential: VerifiableCredential;
+  try {
+    credential = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  if (!credential?.type?.includes('VerifiableCredential') || !credential.type.includes(CREDENTIAL_TYPE)) {
+    throw new Error(`Not a ${CREDENTIAL_TYPE}`);
+  }
+  if (!credential.credentialSubject || !credential.credentialStatus || !credential.issuer) {
+    throw new Error('Credential is missing its subject, issuer or status');
+  }
+  return credential;
+};
+
+// Checks the holder's signature, then every claim against the contract on the chain named in credentialStatus
+export const verifyCredential = async (credential: VerifiableCredential): Promise<CredentialVerification> => {
+  const checks: CredentialCheck[] = [];
+  const holder = parseDidPkh(credential.credentialSubject.id);
+  const issuer = parseDidPkh(credential.issuer.id);
+
+  checks.push({
+    label: 'Holder DID',
+    passed: holder !== null,
+    detail: holder ? undefined : 'credentialSubject.id is not a did:pkh'
+  });
+
+  let signer = '';
+  try {
+    if (credential.proof?.type !== PROOF_TYPE) throw new Error(`Expected a ${PROOF_TYPE} proof`);
+    signer = ethers.verifyMessage(signingPayload(credential), credential.proof.proofValue);
+  } catch (error: any) {
+    checks.push({ label: 'Holder signature', passed: false, detail: error.message });
+  }
+  if (signer) {
+    const signedByHolder = holder !== null && signer === holder.address &&
+      credential.proof?.verificationMethod.startsWith(credential.credentialSubject.id);
+    checks.push({
+      label: 'Holder signature',
+      passed: !!signedByHolder,
+      detail: signedByHolder ? undefined : `Signed by ${signer}, not the credential subject`
+    });
+  }
+
+  const [, chainId, registry] = /^eip155:(\d+):(0x[0-9a-fA-F]{40})$/.exec(credential.credentialStatus.statusContract) ?? [];
+  const deployment = chainId ? getDeployment(Number(chainId)) : undefined;
+  const knownRegistry = deployment !== undefined && getNetwork(deployment.chainId) !== undefined &&
+    deployment.address.toLowerCase() === registry.toLowerCase();
+  checks.push({
+    label: 'Registry',
+    passed: knownRegistry,
+    detail: knownRegistry ? undefined : `Status is held by ${credential.credentialStatus.statusContract}, which is not a known deployment`
+  });
+  if (!deployment || !knownRegistry) return { valid: false, checks, certificate: null };
+
+  const contract = getReadContract(deployment.chainId);
+  const certificate = await lookupCertificate(contract, Number(credential.credentialStatus.certificateId));
+  if (!certificate) {
+    checks.push({ label: 'On-chain record', passed: false, detail: `Certificate #${credential.credentialStatus.certificateId} was never issued` });
+    return { valid: false, checks, certificate: null };
+  }
+
+  const claimsMatch =
+    credential.credentialSubject.certificateId === certificate.id &&
+    holder?.address === ethers.getAddress(certificate.holder) &&
+    issuer?.address === ethers.getAddress(certificate.issuer) &&
+    credential.credentialSubject.profession === certificate.profession &&
+    hashesMatch(credential.credentialSubject.credentialHash, certificate.credentialHash) &&
+    credential.issuanceDate === toIsoDate(certificate.issueDate);
+  checks.push({
+    label: 'Claims match on-chain record',
+    passed: claimsMatch,
+    detail: claimsMatch ? undefined : 'Holder, issuer, profession, hash or issue date differ from the contract'
+  });
+
+  // Expiry is read from the contract, which may have extended it since export
+  const isValid = certificate.status === CertificateStatus.Valid;
+  checks.push({
+    label: 'Certificate status',
+    passed: isValid,
+    detail: isValid ? undefined : CertificateStatus[certificate.status]
+  });
+
+  return { valid: checks.every(check => check.passed), checks, certificate };
+};
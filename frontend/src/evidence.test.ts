@@ -0,0 +1,40 @@
+// @vitest-environment node
+// jsdom's Uint8Array is not the one Node's crypto returns, which ethers' byte checks reject
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { createInMemoryContentStore, fetchVerifiedContent, hashContent } from './contentStore';
+import { decryptEvidence, deriveEvidenceKey, encryptEvidence } from './evidence';
+
+const EVIDENCE = 'Licence no. 4711, issued by the State Bar';
+
+describe('evidence', () => {
+  it('decrypts what was encrypted to the recipient after a round trip through the store', async () => {
+    const issuer = ethers.Wallet.createRandom();
+    const key = await deriveEvidenceKey(issuer);
+    const store = createInMemoryContentStore();
+
+    const content = await encryptEvidence(EVIDENCE, key.compressedPublicKey);
+    const uri = await store.put(content);
+    const fetched = await fetchVerifiedContent(uri, hashContent(content), store);
+
+    expect(await decryptEvidence(fetched, key)).toBe(EVIDENCE);
+  });
+
+  it('rejects content that does not match the hash recorded on-chain', async () => {
+    const key = await deriveEvidenceKey(ethers.Wallet.createRandom());
+    const store = createInMemoryContentStore();
+    const content = await encryptEvidence(EVIDENCE, key.compressedPublicKey);
+    const tampered = await store.put(await encryptEvidence('Forged licence', key.compressedPublicKey));
+
+    await expect(fetchVerifiedContent(tampered, hashContent(content), store))
+      .rejects.toThrow('Evidence does not match the hash recorded on-chain');
+  });
+
+  it('cannot be decrypted with another issuer\'s key', async () => {
+    const recipient = await deriveEvidenceKey(ethers.Wallet.createRandom());
+    const other = await deriveEvidenceKey(ethers.Wallet.createRandom());
+    const content = await encryptEvidence(EVIDENCE, recipient.compressedPublicKey);
+
+    await expect(decryptEvidence(content, other)).rejects.toThrow();
+  });
+});
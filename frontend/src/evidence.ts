@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { CertificateContract, getContractDeployment } from './contract';
+import { ContentStore, getContentStore, fetchVerifiedContent, hashContent } from './contentStore';
+import { getIndexedEvents, syncEventIndex } from './indexer';
+
+// Signed once per issuer account; the signature seeds the issuer's evidence key pair.
+// Wallets sign deterministically (RFC 6979), so the same account always derives the same key.
+const EVIDENCE_KEY_MESSAGE = "Privacy Professional Certificate\n\nDerive my evidence decryption key.\nOnly sign this on the certificate app.";
+
+const ENVELOPE_VERSION = 1;
+
+interface EvidenceEnvelope {
+  version: number;
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface EvidenceRef {
+  contentHash: string;
+  uri: string;
+  recipient: string;
+}
+
+export interface EvidenceRecipient {
+  address: string;
+  organization: string;
+  publicKey: string;
+}
+
+const evidenceKeys = new Map<string, ethers.SigningKey>();
+
+export const deriveEvidenceKey = async (signer: ethers.Signer): Promise<ethers.SigningKey> => {
+  const address = (await signer.getAddress()).toLowerCase();
+  let key = evidenceKeys.get(address);
+  if (!key) {
+    const signature = await signer.signMessage(EVIDENCE_KEY_MESSAGE);
+    key = new ethers.SigningKey(ethers.keccak256(signature));
+    evidenceKeys.set(address, key);
+  }
+  return key;
+};
+
+// WebCrypto only accepts ArrayBuffer-backed views, which ethers' byte helpers do not promise
+const toBufferSource = (bytes: Uint8Array): Uint8Array<ArrayBuffer> => new Uint8Array(bytes);
+
+// ECDH on secp256k1, hashed into an AES-256-GCM key
+const importSharedKey = (privateKey: ethers.SigningKey, publicKey: string, usage: KeyUsage): Promise<CryptoKey> => {
+  const secret = ethers.getBytes(ethers.keccak256(privateKey.computeSharedSecret(publicKey)));
+  return crypto.subtle.importKey('raw', toBufferSource(secret), 'AES-GCM', false, [usage]);
+};
+
+export const encryptEvidence = async (plaintext: string, recipientPublicKey: string): Promise<Uint8Array> => {
+  const ephemeral = new ethers.SigningKey(ethers.randomBytes(32));
+  const key = await importSharedKey(ephemeral, recipientPublicKey, 'encrypt');
+  const iv = toBufferSource(ethers.randomBytes(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, toBufferSource(ethers.toUtf8Bytes(plaintext)));
+
+  const envelope: EvidenceEnvelope = {
+    version: ENVELOPE_VERSION,
+    ephemeralPublicKey: ephemeral.compressedPublicKey,
+    iv: ethers.hexlify(iv),
+    ciphertext: ethers.hexlify(new Uint8Array(ciphertext))
+  };
+  return ethers.toUtf8Bytes(JSON.stringify(envelope));
+};
+
+export const decryptEvidence = async (content: Uint8Array, privateKey: ethers.SigningKey): Promise<string> => {
+  const envelope: EvidenceEnvelope = JSON.parse(ethers.toUtf8String(content));
+  if (envelope.version !== ENVELOPE_VERSION) throw new Error(`Unsupported evidence format v${envelope.version}`);
+
+  const key = await importSharedKey(privateKey, envelope.ephemeralPublicKey, 'decrypt');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: toBufferSource(ethers.getBytes(envelope.iv)) },
+    key,
+    toBufferSource(ethers.getBytes(envelope.ciphertext))
+  );
+  return ethers.toUtf8String(new Uint8Array(plaintext));
+};
+
+// Encrypts for the recipient, uploads the ciphertext and returns what goes on-chain
+export const storeEvidence = async (
+  plaintext: string,
+  recipient: EvidenceRecipient,
+  store: ContentStore = getContentStore()
+): Promise<EvidenceRef> => {
+  const content = await encryptEvidence(plaintext, recipient.publicKey);
+  const uri = await store.put(content);
+  return { contentHash: hashContent(content), uri, recipient: recipient.address };
+};
+
+export const readEvidence = async (
+  ref: EvidenceRef,
+  signer: ethers.Signer,
+  store: ContentStore = getContentStore()
+): Promise<string> => {
+  const content = await fetchVerifiedContent(ref.uri, ref.contentHash, store);
+  return decryptEvidence(content, await deriveEvidenceKey(signer));
+};
+
+// Issuers currently assigned to the profession that have published an evidence key
+export const getEvidenceRecipients = async (
+  contract: CertificateContract,
+  profession: string
+): Promise<EvidenceRecipient[]> => {
+  const deployment = getContractDeployment(contract);
+  await syncEventIndex(deployment, contract);
+  const assignments = await getIndexedEvents(deployment, 'IssuerProfessionUpdated');
+
+  const assigned = new Map<string, boolean>();
+  for (const event of assignments) {
+    if (event.profession === profession) assigned.set(event.issuer, event.allowed);
+  }
+
+  const candidates = [...assigned.entries()].filter(([, allowed]) => allowed).map(([issuer]) => issuer);
+  const recipients = await Promise.all(candidates.map(async (address): Promise<EvidenceRecipient | null> => {
+    const [isAuthorized, publicKey, info] = await Promise.all([
+      contract.authorizedIssuers(address),
+      contract.evidenceKeys(address),
+      contract.issuerRegistry(address)
+    ]);
+    if (!isAuthorized || publicKey === '0x') return null;
+    return { address, organization: info.organization, publicKey };
+  }));
+
+  return recipients.filter((recipient): recipient is EvidenceRecipient => recipient !== null);
+};
@@ -0,0 +1,174 @@
+import { ethers } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { FhevmMockConfig, FhevmRelayerConfig, NetworkConfig, getNetwork } from './networks';
+
+export interface EncryptedCertificationInput {
+  scoreHandle: string;
+  levelHandle: string;
+  inputProof: string;
+}
+
+// What `fhevm_relayer_metadata` returns on a node running the fhEVM mock
+interface MockRelayerMetadata {
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+// Both SDKs are loaded on first use: the relayer SDK pulls in the TFHE and KMS WASM, and the mock is only for local nodes
+const createRelayerInstance = async (network: NetworkConfig, fhevm: FhevmRelayerConfig): Promise<FhevmInstance> => {
+  const { initSDK, createInstance } = await import('@zama-fhe/relayer-sdk/web');
+  await initSDK();
+  const { kind: _kind, ...config } = fhevm;
+  return createInstance({ ...config, chainId: network.chainId, network: network.rpcUrl });
+};
+
+const createMockInstance = async (network: NetworkConfig, fhevm: FhevmMockConfig): Promise<FhevmInstance> => {
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+  const metadata: MockRelayerMetadata = await provider.send('fhevm_relayer_metadata', []);
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: fhevm.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: fhevm.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: fhevm.gatewayChainId
+  });
+};
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+// One instance per chain, reused for every encryption and decryption
+export const getFhevmInstance = (chainId: number): Promise<FhevmInstance> => {
+  let instance = instances.get(chainId);
+  if (!instance) {
+    const network = getNetwork(chainId);
+    instance = (async () => {
+      if (!network?.fhevm) {
+        throw new Error(`${network?.name ?? `Chain ${chainId}`} has no fhEVM relayer; use demo mode to submit plaintext values`);
+      }
+      return network.fhevm.kind === 'mock'
+        ? createMockInstance(network, network.fhevm)
+        : createRelayerInstance(network, network.fhevm);
+    })().catch((error) => {
+      instances.delete(chainId);
+      throw error;
+    });
+    instances.set(chainId, instance);
+  }
+  return instance;
+};
+
+// Encrypts score and level in the browser; the input proof binds the handles to the contract and the sender
+export const encryptCertificationInput = async (
+  chainId: number,
+  contractAddress: string,
+  userAddress: string,
+  score: number,
+  level: number
+): Promise<EncryptedCertificationInput> => {
+  const instance = await getFhevmInstance(chainId);
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(score)
+    .add8(level)
+    .encrypt();
+
+  return {
+    scoreHandle: ethers.hexlify(handles[0]),
+    levelHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+};
+
+// How long a decryption signature stays valid for the relayer
+const DECRYPTION_VALIDITY_DAYS = 1;
+
+interface DecryptionSession {
+  account: string;
+  chainId: number;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+// One keypair/signature per account, chain and contract, so the wallet is only prompted once a day
+let decryptionSession: DecryptionSession | null = null;
+
+export const clearDecryptionSession = () => {
+  decryptionSession = null;
+};
+
+const getDecryptionSession = async (
+  instance: FhevmInstance,
+  chainId: number,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<DecryptionSession> => {
+  const account = await signer.getAddress();
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    decryptionSession &&
+    decryptionSession.account === account &&
+    decryptionSession.chainId === chainId &&
+    decryptionSession.contractAddress === contractAddress &&
+    decryptionSession.startTimestamp + DECRYPTION_VALIDITY_DAYS * 24 * 60 * 60 > now
+  ) {
+    return decryptionSession;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, DECRYPTION_VALIDITY_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+    eip712.message
+  );
+
+  decryptionSession = {
+    account,
+    chainId,
+    contractAddress,
+    publicKey,
+    privateKey,
+    signature: signature.replace('0x', ''),
+    startTimestamp: now
+  };
+  return decryptionSession;
+};
+
+const normalizeHandle = (handle: string): string => handle.replace(/^0x/, '').toLowerCase();
+
+// Asks the relayer to re-encrypt the handles to a local keypair and decrypts them in the browser;
+// the ACL must allow both the contract and the account on every handle
+export const userDecrypt = async (
+  chainId: number,
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<bigint[]> => {
+  const instance = await getFhevmInstance(chainId);
+  const session = await getDecryptionSession(instance, chainId, contractAddress, signer);
+
+  const results = await instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    [contractAddress],
+    session.account,
+    session.startTimestamp,
+    DECRYPTION_VALIDITY_DAYS
+  );
+
+  const values = new Map(Object.entries(results).map(([handle, value]) => [normalizeHandle(handle), value]));
+  return handles.map((handle) => {
+    const value = values.get(normalizeHandle(handle));
+    if (value === undefined) throw new Error(`The relayer returned no value for handle ${handle}`);
+    return BigInt(value);
+  });
+};
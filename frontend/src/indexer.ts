@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import { CertificateContract, Deployment, getReadContract } from './contract';
+import { AccessGrant } from './types';
+
+// Most public RPCs cap eth_getLogs ranges, so history is backfilled in chunks
+const BLOCK_RANGE = 5000;
+
+// Bumping the version drops the index and backfills it again, e.g. after tracking a new event
+const DB_VERSION = 1;
+const EVENTS_STORE = "events";
+const META_STORE = "meta";
+const LAST_BLOCK_KEY = "lastBlock";
+
+interface IndexedEventBase {
+  key: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export type IndexedEvent = IndexedEventBase & (
+  | { type: 'CertificationRequested'; requestId: number; applicant: string; profession: string }
+  | { type: 'CertificationDecisionRequested'; requestId: number }
+  | { type: 'CertificationApproved'; requestId: number; certificateId: number }
+  | { type: 'CertificationRejected'; requestId: number; reason: string }
+  | { type: 'CertificateIssued'; certificateId: number; holder: string; profession: string }
+  | { type: 'CertificateRevoked'; certificateId: number; reason: string }
+  | { type: 'RenewalRequested'; certificateId: number; holder: string }
+  | { type: 'IssuerAuthorized'; issuer: string; organization: string }
+  | { type: 'IssuerRevoked'; issuer: string }
+  | { type: 'IssuerMetadataUpdated'; issuer: string; metadataURI: string }
+  | { type: 'IssuerProfessionUpdated'; issuer: string; profession: string; allowed: boolean }
+  | { type: 'IssuerAdminUpdated'; admin: string; enabled: boolean }
+  | { type: 'ContractPaused'; by: string; reason: string }
+  | { type: 'DisclosureGranted'; disclosureId: number; holder: string; verifier: string; certificateId: number }
+  | ({ type: 'AccessGranted' } & AccessGrant)
+  | { type: 'AccessRevoked'; certificateId: number; holder: string; verifier: string }
+);
+
+export type IndexedEventType = IndexedEvent['type'];
+
+export type IndexedEventOf<T extends IndexedEventType> = Extract<IndexedEvent, { type: T }>;
+
+// Maps a raw log to its typed record; events the index does not track return null
+const decodeEvent = (event: ethers.EventLog): IndexedEvent | null => {
+  const base: IndexedEventBase = {
+    key: `${event.blockNumber}:${event.index}`,
+    blockNumber: event.blockNumber,
+    logIndex: event.index,
+    transactionHash: event.transactionHash
+  };
+  const args = event.args;
+
+  switch (event.eventName) {
+    case 'CertificationRequested':
+      return { ...base, type: 'CertificationRequested', requestId: Number(args.requestId), applicant: args.applicant, profession: args.profession };
+    case 'CertificationDecisionRequested':
+      return { ...base, type: 'CertificationDecisionRequested', requestId: Number(args.requestId) };
+    case 'CertificationApproved':
+      return { ...base, type: 'CertificationApproved', requestId: Number(args.requestId), certificateId: Number(args.certificateId) };
+    case 'CertificationRejected':
+      return { ...base, type: 'CertificationRejected', requestId: Number(args.requestId), reason: args.reason };
+    case 'CertificateIssued':
+      return { ...base, type: 'CertificateIssued', certificateId: Number(args.certificateId), holder: args.holder, profession: args.profession };
+    case 'CertificateRevoked':
+      return { ...base, type: 'CertificateRevoked', certificateId: Number(args.certificateId), reason: args.reason };
+    case 'RenewalRequested':
+      return { ...base, type: 'RenewalRequested', certificateId: Number(args.certificateId), holder: args.holder };
+    case 'IssuerAuthorized':
+      return { ...base, type: 'IssuerAuthorized', issuer: args.issuer, organization: args.organization };
+    case 'IssuerRevoked':
+      return { ...base, type: 'IssuerRevoked', issuer: args.issuer };
+    case 'IssuerMetadataUpdated':
+      return { ...base, type: 'IssuerMetadataUpdated', issuer: args.issuer, metadataURI: args.metadataURI };
+    case 'IssuerProfessionUpdated':
+      return { ...base, type: 'IssuerProfessionUpdated', issuer: args.issuer, profession: args.profession, allowed: args.allowed };
+    case 'IssuerAdminUpdated':
+      return { ...base, type: 'IssuerAdminUpdated', admin: args.admin, enabled: args.enabled };
+    case 'ContractPaused':
+      return { ...base, type: 'ContractPaused', by: args.by, reason: args.reason };
+    case 'DisclosureGranted':
+      return { ...base, type: 'DisclosureGranted', disclosureId: Number(args.disclosureId), holder: args.holder, verifier: args.verifier, certificateId: Number(args.certificateId) };
+    case 'AccessGranted':
+      return {
+        ...base,
+        type: 'AccessGranted',
+        certificateId: Number(args.certificateId),
+        holder: args.holder,
+        verifier: args.verifier,
+        score: args.score,
+        level: args.level,
+        expiresAt: Number(args.expiresAt)
+      };
+    case 'AccessRevoked':
+      return { ...base, type: 'AccessRevoked', certificateId: Number(args.certificateId), holder: args.holder, verifier: args.verifier };
+    default:
+      return null;
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+// One database per chain and deployment, so switching networks never mixes histories
+const databaseName = (deployment: Deployment): string =>
+  `certificate-index-${deployment.chainId}-${deployment.address.toLowerCase()}`;
+
+const openDatabase = (deployment: Deployment): Promise<IDBDatabase> => {
+  const name = databaseName(deployment);
+  let database = databases.get(name);
+  if (!database) {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of [...db.objectStoreNames]) db.deleteObjectStore(store);
+
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'key' });
+      events.createIndex('type', 'type');
+      db.createObjectStore(META_STORE);
+    };
+    database = requestToPromise(request).catch((error) => {
+      databases.delete(name);
+      throw error;
+    });
+    databases.set(name, database);
+  }
+  return database;
+};
+
+const getLastSyncedBlock = async (db: IDBDatabase): Promise<number | undefined> => {
+  const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  return requestToPromise<number | undefined>(store.get(LAST_BLOCK_KEY));
+};
+
+// Events and the sync cursor are written in one transaction, so an interrupted sync resumes cleanly
+const storeRange = (db: IDBDatabase, events: IndexedEvent[], toBlock: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    for (const event of events) store.put(event);
+    tx.objectStore(META_STORE).put(toBlock, LAST_BLOCK_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+// In-flight syncs by database, so each deployment has at most one running
+const syncPromises = new Map<string, Promise<number>>();
+
+const runSync = async (deployment: Deployment, contract: CertificateContract): Promise<number> => {
+  if (String(contract.target).toLowerCase() !== deployment.address.toLowerCase()) {
+    throw new Error(`Contract ${String(contract.target)} is not the ${deployment.network} deployment`);
+  }
+  const db = await openDatabase(deployment);
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error('Contract has no provider to sync from');
+
+  const lastSynced = await getLastSyncedBlock(db);
+  const latest = await provider.getBlockNumber();
+  let fromBlock = lastSynced === undefined ? deployment.blockNumber : lastSynced + 1;
+
+  while (fromBlock <= latest) {
+    const toBlock = Math.min(fromBlock + BLOCK_RANGE - 1, latest);
+    // The generated bindings only type named events; '*' needs the untyped base contract
+    const logs = await (contract as ethers.BaseContract).queryFilter('*', fromBlock, toBlock);
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = log instanceof ethers.EventLog ? decodeEvent(log) : null;
+      if (event) events.push(event);
+    }
+
+    await storeRange(db, events, toBlock);
+    fromBlock = toBlock + 1;
+  }
+
+  return latest;
+};
+
+// Pulls everything since the last synced block into IndexedDB; concurrent callers for one deployment share a sync
+export const syncEventIndex = (
+  deployment: Deployment,
+  contract: CertificateContract = getReadContract(deployment.chainId)
+): Promise<number> => {
+  const name = databaseName(deployment);
+  let sync = syncPromises.get(name);
+  if (!sync) {
+    sync = runSync(deployment, contract).finally(() => {
+      syncPromises.delete(name);
+    });
+    syncPromises.set(name, sync);
+  }
+  return sync;
+};
+
+// Indexed events of one type, in chain order
+export const getIndexedEvents = async <T extends IndexedEventType>(
+  deployment: Deployment,
+  type: T
+): Promise<IndexedEventOf<T>[]> => {
+  const db = await openDatabase(deployment);
+  const index = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE).index('type');
+  const events = await requestToPromise<IndexedEvent[]>(index.getAll(type));
+  return (events as IndexedEventOf<T>[]).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+export const getHolderCertificateIds = async (deployment: Deployment, holder: string): Promise<number[]> => {
+  const issued = await getIndexedEvents(deployment, 'CertificateIssued');
+  return issued
+    .filter(event => event.holder.toLowerCase() === holder.toLowerCase())
+    .map(event => event.certificateId);
+};
+
+// Disclosures where the account is the holder or the verifier, newest first
+export const getDisclosureIds = async (
+  deployment: Deployment,
+  account: string,
+  role: 'holder' | 'verifier'
+): Promise<number[]> => {
+  const granted = await getIndexedEvents(deployment, 'DisclosureGranted');
+  return granted
+    .filter(event => event[role].toLowerCase() === account.toLowerCase())
+    .map(event => event.disclosureId)
+    .reverse();
+};
+
+export type AccessEvent = IndexedEventOf<'AccessGranted'> | IndexedEventOf<'AccessRevoked'>;
+
+// Every grant and revocation involving the account, in chain order; this is the audit trail
+export const getAccessHistory = async (
+  deployment: Deployment,
+  account: string,
+  role: 'holder' | 'verifier'
+): Promise<AccessEvent[]> => {
+  const [granted, revoked] = await Promise.all([
+    getIndexedEvents(deployment, 'AccessGranted'),
+    getIndexedEvents(deployment, 'AccessRevoked')
+  ]);
+  return [...granted, ...revoked]
+    .filter(event => event[role].toLowerCase() === account.toLowerCase())
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+// The latest event per certificate and verifier decides; a later grant replaces an earlier one
+export const activeGrants = (history: AccessEvent[], now: number = Date.now() / 1000): AccessGrant[] => {
+  const latest = new Map<string, AccessEvent>();
+  for (const event of history) latest.set(`${event.certificateId}:${event.verifier.toLowerCase()}`, event);
+
+  const grants: AccessGrant[] = [];
+  for (const event of latest.values()) {
+    if (event.type === 'AccessGranted' && event.expiresAt > now) {
+      const { certificateId, holder, verifier, score, level, expiresAt } = event;
+      grants.push({ certificateId, holder, verifier, score, level, expiresAt });
+    }
+  }
+  return grants;
+};
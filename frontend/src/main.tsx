@@ -1,9 +1,14 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import VerifyPage from './components/VerifyPage.tsx'
+import { parseVerificationLink } from './verification.ts'
+
+// Shared /verify/<id>?hash=... links open the read-only verification page
+const verificationLink = parseVerificationLink(window.location)
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {verificationLink ? <VerifyPage link={verificationLink} /> : <App />}
   </React.StrictMode>,
-)
\ No newline at end of file
+)
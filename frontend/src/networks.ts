@@ -0,0 +1,80 @@
+// Gateway-chain contracts that sign input proofs and decryptions for fhEVM 0.8
+interface FhevmGatewayConfig {
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+}
+
+// Host-chain contracts plus Zama's relayer, which the relayer SDK encrypts and decrypts through
+export interface FhevmRelayerConfig extends FhevmGatewayConfig {
+  kind: 'relayer';
+  relayerUrl: string;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+}
+
+// `npm run node` runs the fhEVM mock from @fhevm/hardhat-plugin, which stands in for the relayer and
+// reports where it deployed the host-chain contracts
+export interface FhevmMockConfig extends FhevmGatewayConfig {
+  kind: 'mock';
+}
+
+export type FhevmNetworkConfig = FhevmRelayerConfig | FhevmMockConfig;
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl?: string;
+  currency: { name: string; symbol: string; decimals: number };
+  // Without it the browser cannot encrypt or decrypt; only demo-mode requests work
+  fhevm?: FhevmNetworkConfig;
+}
+
+export const LOCAL_CHAIN_ID = 31337;
+export const SEPOLIA_CHAIN_ID = 11155111;
+
+// Add future networks here; a network is only usable once deployments.json has an entry for it
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [LOCAL_CHAIN_ID]: {
+    chainId: LOCAL_CHAIN_ID,
+    name: 'Local Hardhat',
+    rpcUrl: import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+    currency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    fhevm: {
+      kind: 'mock',
+      verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+      verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+      gatewayChainId: 55815
+    }
+  },
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: 'Sepolia',
+    rpcUrl: import.meta.env.VITE_RPC_URL || 'https://sepolia.gateway.tenderly.co',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    currency: { name: 'SepoliaETH', symbol: 'ETH', decimals: 18 },
+    // Matches SepoliaConfig in @fhevm/solidity 0.8, which the contract inherits
+    fhevm: {
+      kind: 'relayer',
+      relayerUrl: 'https://relayer.testnet.zama.cloud',
+      aclContractAddress: '0x687820221192C5B662b25367F70076A37bc79b6c',
+      kmsContractAddress: '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC',
+      inputVerifierContractAddress: '0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4',
+      verifyingContractAddressDecryption: '0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1',
+      verifyingContractAddressInputVerification: '0x7048C39f048125eDa9d678AEbaDfB22F7900a29F',
+      gatewayChainId: 55815
+    }
+  }
+};
+
+// Network used for read-only pages and offered when the wallet is on an unsupported chain
+export const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID);
+
+export const getNetwork = (chainId: number): NetworkConfig | undefined => NETWORKS[chainId];
+
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+export const explorerTxUrl = (network: NetworkConfig, transactionHash: string): string | undefined =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${transactionHash}` : undefined;
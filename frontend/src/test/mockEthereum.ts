@@ -0,0 +1,245 @@
+import { ethers } from 'ethers';
+import { PrivacyProfessionalCertificate__factory } from '../typechain';
+import { toHexChainId } from '../networks';
+
+type EthereumProvider = NonNullable<Window['ethereum']>;
+
+// Contract view functions by name; unhandled functions return zero values
+export type CallHandlers = Record<string, (...args: any[]) => unknown>;
+
+// A contract event as the node would log it; block defaults to the current one
+export interface MockEvent {
+  name: string;
+  args: unknown[];
+  blockNumber?: number;
+}
+
+// Contract transactions by name, returning the events they emit; every sent transaction succeeds
+export type SendHandlers = Record<string, (...args: any[]) => MockEvent[]>;
+
+export interface MockEthereum extends EthereumProvider {
+  chainId: number;
+  calls: CallHandlers;
+  sends: SendHandlers;
+  events: MockEvent[];
+  sent: { name: string; args: ethers.Result }[];
+  requests: { method: string; params?: any[] }[];
+  emit: (event: string, ...args: any[]) => void;
+}
+
+interface MockEthereumOptions {
+  account?: string;
+  chainId: number;
+  calls?: CallHandlers;
+  sends?: SendHandlers;
+  events?: MockEvent[];
+}
+
+const START_BLOCK = 100;
+const GAS_PRICE = ethers.toQuantity(ethers.parseUnits('1', 'gwei'));
+const GAS_USED = ethers.toQuantity(100_000);
+
+// Filler signature; ethers only checks that it is well formed
+const SIGNATURE = { r: ethers.id('r'), s: ethers.zeroPadValue('0x01', 32), v: '0x1b' };
+
+// Untyped so selectors can be looked up at runtime
+const contractInterface = new ethers.Interface(PrivacyProfessionalCertificate__factory.abi);
+
+const zeroValue = (param: ethers.ParamType): unknown => {
+  if (param.isTuple()) return param.components.map(zeroValue);
+  if (param.isArray()) return [];
+  if (param.type === 'bool') return false;
+  if (param.type === 'address') return ethers.ZeroAddress;
+  if (param.type === 'string') return '';
+  if (param.type === 'bytes') return '0x';
+  if (param.type.startsWith('bytes')) return ethers.zeroPadValue('0x', Number(param.type.slice(5)));
+  return 0;
+};
+
+// Answers eth_call from the handlers, ABI-encoded with the generated contract interface
+const handleCall = (calls: CallHandlers, data: string): string => {
+  const fragment = contractInterface.getFunction(data.slice(0, 10));
+  if (!fragment) throw new Error(`Unknown selector ${data.slice(0, 10)}`);
+
+  const handler = calls[fragment.name];
+  if (!handler) return contractInterface.encodeFunctionResult(fragment, fragment.outputs.map(zeroValue));
+
+  const args = contractInterface.decodeFunctionData(fragment, data);
+  const result = handler(...args);
+  return contractInterface.encodeFunctionResult(fragment, fragment.outputs.length === 1 ? [result] : result as unknown[]);
+};
+
+const blockHash = (blockNumber: number): string => ethers.id(`block-${blockNumber}`);
+
+const encodeLog = (event: MockEvent, address: string, index: number, transactionHash: string) => {
+  const { data, topics } = contractInterface.encodeEventLog(event.name, event.args);
+  return {
+    address,
+    blockNumber: ethers.toQuantity(event.blockNumber!),
+    blockHash: blockHash(event.blockNumber!),
+    transactionHash,
+    transactionIndex: '0x0',
+    logIndex: ethers.toQuantity(index),
+    removed: false,
+    data,
+    topics
+  };
+};
+
+// EIP-1193 wallet following the Window['ethereum'] shape declared in vite-env.d.ts
+export const createMockEthereum = ({ account, chainId, calls = {}, sends = {}, events = [] }: MockEthereumOptions): MockEthereum => {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  // Each sent transaction is mined into a block of its own
+  let blockNumber = START_BLOCK;
+  const transactions = new Map<string, { to: string; data: string; blockNumber: number; events: MockEvent[] }>();
+
+  const getLogs = ({ address, fromBlock, toBlock }: { address: string; fromBlock: string; toBlock: string }) =>
+    ethereum.events
+      .map((event, index) => ({ event: { ...event, blockNumber: event.blockNumber ?? START_BLOCK }, index }))
+      .filter(({ event }) => event.blockNumber >= Number(fromBlock) && event.blockNumber <= Number(toBlock))
+      .map(({ event, index }) => encodeLog(event, address, index, ethers.id(`log-${index}`)));
+
+  const sendTransaction = ({ to, data }: { to: string; data: string }): string => {
+    const parsed = contractInterface.parseTransaction({ data });
+    if (!parsed) throw new Error(`Unknown selector ${data.slice(0, 10)}`);
+
+    blockNumber += 1;
+    const emitted = (ethereum.sends[parsed.name]?.(...parsed.args) ?? []).map(event => ({ ...event, blockNumber }));
+    ethereum.sent.push({ name: parsed.name, args: parsed.args });
+    ethereum.events.push(...emitted);
+
+    const hash = ethers.id(`tx-${blockNumber}`);
+    transactions.set(hash, { to, data, blockNumber, events: emitted });
+    return hash;
+  };
+
+  const getTransaction = (hash: string) => {
+    const tx = transactions.get(hash);
+    if (!tx) return null;
+    return {
+      hash,
+      type: '0x2',
+      blockHash: blockHash(tx.blockNumber),
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      transactionIndex: '0x0',
+      from: account,
+      to: tx.to,
+      gas: GAS_USED,
+      maxFeePerGas: GAS_PRICE,
+      maxPriorityFeePerGas: GAS_PRICE,
+      value: '0x0',
+      nonce: '0x0',
+      input: tx.data,
+      chainId: ethers.toQuantity(ethereum.chainId),
+      ...SIGNATURE
+    };
+  };
+
+  const getReceipt = (hash: string) => {
+    const tx = transactions.get(hash);
+    if (!tx) return null;
+    return {
+      transactionHash: hash,
+      transactionIndex: '0x0',
+      blockHash: blockHash(tx.blockNumber),
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      from: account,
+      to: tx.to,
+      contractAddress: null,
+      gasUsed: GAS_USED,
+      cumulativeGasUsed: GAS_USED,
+      effectiveGasPrice: GAS_PRICE,
+      logsBloom: ethers.zeroPadValue('0x', 256),
+      status: '0x1',
+      type: '0x2',
+      logs: tx.events.map((event, index) => encodeLog(event, tx.to, index, hash))
+    };
+  };
+
+  const getBlock = () => ({
+    hash: blockHash(blockNumber),
+    parentHash: blockHash(blockNumber - 1),
+    number: ethers.toQuantity(blockNumber),
+    timestamp: ethers.toQuantity(1_700_000_000 + blockNumber * 12),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: ethers.toQuantity(30_000_000),
+    gasUsed: '0x0',
+    miner: ethers.ZeroAddress,
+    extraData: '0x',
+    baseFeePerGas: GAS_PRICE,
+    transactions: []
+  });
+
+  const ethereum: MockEthereum = {
+    chainId,
+    calls,
+    sends,
+    events: [...events],
+    sent: [],
+    requests: [],
+    selectedAddress: account ?? null,
+
+    request: async ({ method, params }) => {
+      ethereum.requests.push({ method, params });
+      switch (method) {
+        case 'eth_requestAccounts':
+        case 'eth_accounts':
+          return account ? [account] : [];
+        case 'eth_chainId':
+          return toHexChainId(ethereum.chainId);
+        case 'net_version':
+          return String(ethereum.chainId);
+        case 'eth_blockNumber':
+          return ethers.toQuantity(blockNumber);
+        case 'eth_getBlockByNumber':
+          return getBlock();
+        case 'eth_getBalance':
+          return ethers.toQuantity(ethers.parseEther('1.5'));
+        case 'eth_gasPrice':
+        case 'eth_maxPriorityFeePerGas':
+          return GAS_PRICE;
+        case 'eth_estimateGas':
+          return GAS_USED;
+        case 'eth_sendTransaction':
+          return sendTransaction(params![0]);
+        case 'eth_getTransactionByHash':
+          return getTransaction(params![0]);
+        case 'eth_getTransactionReceipt':
+          return getReceipt(params![0]);
+        case 'eth_getLogs':
+          return getLogs(params![0]);
+        case 'eth_getFilterChanges':
+          return [];
+        case 'eth_newFilter':
+        case 'eth_newBlockFilter':
+          return '0x1';
+        case 'eth_uninstallFilter':
+          return true;
+        case 'eth_call':
+          return handleCall(ethereum.calls, params![0].data);
+        case 'wallet_switchEthereumChain':
+          ethereum.chainId = Number(params![0].chainId);
+          ethereum.emit('chainChanged', params![0].chainId);
+          return null;
+        default:
+          throw Object.assign(new Error(`Unsupported method ${method}`), { code: 4200 });
+      }
+    },
+
+    on: (event, handler) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(handler);
+    },
+
+    removeListener: (event, handler) => {
+      listeners.get(event)?.delete(handler);
+    },
+
+    emit: (event, ...args) => {
+      for (const handler of listeners.get(event) ?? []) handler(...args);
+    }
+  };
+
+  return ethereum;
+};
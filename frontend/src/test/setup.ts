@@ -0,0 +1,8 @@
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+afterEach(() => {
+  cleanup();
+  if (typeof window !== 'undefined') delete window.ethereum;
+});
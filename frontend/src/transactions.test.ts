@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ethers } from 'ethers';
+import { CertificateContract, getActiveChainId } from './contract';
+import { clearTransactionHistory, describeTxError, resumePendingTransactions, sendTransaction, TrackedTransaction } from './transactions';
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const HASH = ethers.id('transaction');
+
+const storedHistory = (): TrackedTransaction[] => JSON.parse(localStorage.getItem('transaction-history') ?? '[]');
+
+// Just enough of a connected contract and one of its methods for the manager
+const createStubContract = () => ({
+  runner: {
+    getAddress: async () => ACCOUNT,
+    provider: { getFeeData: async () => ({ maxFeePerGas: ethers.parseUnits('2', 'gwei'), gasPrice: null }) }
+  }
+}) as unknown as CertificateContract;
+
+const createStubMethod = (overrides: { estimateGas?: () => Promise<bigint>; wait?: () => Promise<unknown> } = {}) => Object.assign(vi.fn(), {
+  estimateGas: overrides.estimateGas ?? (async () => 50_000n),
+  send: vi.fn(async () => ({
+    hash: HASH,
+    wait: overrides.wait ?? (async () => ({ fee: ethers.parseUnits('80000', 'gwei'), logs: [] }))
+  }))
+}) as unknown as CertificateContract['requestRenewal'];
+
+describe('describeTxError', () => {
+  it('rewords contract revert reasons', () => {
+    const error = ethers.makeError('execution reverted: "Certificate expired"', 'CALL_EXCEPTION', {
+      action: 'estimateGas',
+      data: null,
+      reason: 'Certificate expired',
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: null
+    });
+
+    expect(describeTxError(error)).toBe('This certificate has expired.');
+  });
+
+  it('finds reasons the wallet wrapped in its own error message', () => {
+    const error = { message: 'Internal JSON-RPC error.', info: { error: { message: 'execution reverted: Not authorized issuer' } } };
+
+    expect(describeTxError(error)).toBe('Your account is not an authorized issuer.');
+  });
+
+  it('keeps unrecognised reasons visible', () => {
+    const error = { message: 'execution reverted: Something new' };
+
+    expect(describeTxError(error)).toBe('The contract rejected the transaction: Something new');
+  });
+
+  it('explains wallet rejections', () => {
+    const error = ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' });
+
+    expect(describeTxError(error)).toBe('You rejected the transaction in your wallet.');
+  });
+});
+
+describe('sendTransaction', () => {
+  beforeEach(() => {
+    clearTransactionHistory();
+  });
+
+  it('estimates, sends and records the mined transaction', async () => {
+    const method = createStubMethod();
+
+    await sendTransaction(createStubContract(), { label: 'Request renewal', key: 'renew-1' }, method, 1);
+
+    expect(method.send).toHaveBeenCalledWith(1);
+    const [tx] = storedHistory();
+    expect(tx).toMatchObject({
+      label: 'Request renewal',
+      key: 'renew-1',
+      from: ACCOUNT,
+      status: 'mined',
+      hash: HASH,
+      gasEstimate: '50000',
+      costEstimate: '0.0001',
+      fee: '0.00008'
+    });
+  });
+
+  it('records a failed estimate without sending', async () => {
+    const method = createStubMethod({
+      estimateGas: async () => {
+        throw { message: 'execution reverted: Renewal already requested' };
+      }
+    });
+
+    await expect(sendTransaction(createStubContract(), { label: 'Request renewal' }, method, 1)).rejects.toBeTruthy();
+
+    expect(method.send).not.toHaveBeenCalled();
+    expect(storedHistory()[0]).toMatchObject({
+      status: 'failed',
+      error: 'A renewal has already been requested for this certificate.'
+    });
+  });
+});
+
+describe('resumePendingTransactions', () => {
+  it('follows each pending transaction once however often the wallet reconnects', async () => {
+    // The send never confirms, so the transaction stays pending as if the page had been closed
+    void sendTransaction(createStubContract(), { label: 'Request renewal' }, createStubMethod({ wait: () => new Promise(() => {}) }), 1);
+    await vi.waitFor(() => expect(storedHistory()[0].status).toBe('pending'));
+    const provider = { waitForTransaction: vi.fn(() => new Promise(() => {})) } as unknown as ethers.Provider;
+
+    resumePendingTransactions(provider, getActiveChainId());
+    resumePendingTransactions(provider, getActiveChainId());
+
+    expect(provider.waitForTransaction).toHaveBeenCalledTimes(1);
+    expect(provider.waitForTransaction).toHaveBeenCalledWith(HASH);
+  });
+});
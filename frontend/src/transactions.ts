@@ -0,0 +1,212 @@
+import { useSyncExternalStore } from 'react';
+import { ethers } from 'ethers';
+import { CertificateContract, getActiveChainId } from './contract';
+import type { ContractMethodArgs, TypedContractMethod } from './typechain/common';
+
+export type TransactionStatus = 'estimating' | 'pending' | 'mined' | 'failed';
+
+export interface TrackedTransaction {
+  id: string;
+  // Lets a button find its own in-flight transaction, e.g. `renew-3`
+  key?: string;
+  label: string;
+  chainId: number;
+  from: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  hash?: string;
+  gasEstimate?: string;
+  // Upper bound in ETH at the current max fee; `fee` is what the mined transaction actually paid
+  costEstimate?: string;
+  fee?: string;
+  error?: string;
+}
+
+export interface TransactionRequest {
+  label: string;
+  key?: string;
+}
+
+const HISTORY_KEY = 'transaction-history';
+const HISTORY_LIMIT = 20;
+
+// Require messages in the contract, reworded for the people who trigger them
+const REVERT_MESSAGES: Record<string, string> = {
+  'Not authorized': 'Only the contract owner can do this.',
+  'Not issuer admin': 'Only issuer admins can manage issuers.',
+  'Not authorized issuer': 'Your account is not an authorized issuer.',
+  'Not authorized for profession': 'You are not authorized to certify this profession.',
+  'Contract paused': 'The certificate registry is paused, so this action is disabled.',
+  'Already paused': 'The registry is already paused.',
+  'Not paused': 'The registry is not paused.',
+  'Certificate expired': 'This certificate has expired.',
+  'Certificate not valid': 'This certificate has been revoked.',
+  'Unknown disclosure': 'No disclosure exists with that ID.',
+  'Decision already recorded': 'The decision on this request has already been recorded.',
+  'Unknown decryption request': 'The decrypted result does not belong to any pending request.',
+  'Invalid certificate ID': 'No certificate exists with that ID.',
+  'Invalid request ID': 'No certification request exists with that ID.',
+  'Request already processed': 'This request has already been processed.',
+  'Renewal already requested': 'A renewal has already been requested for this certificate.',
+  'Not certificate holder': 'Only the certificate holder can do this.',
+  'Not disclosure holder': 'Only the holder who created this disclosure can revoke it.',
+  'Disclosure already revoked': 'This disclosure has already been revoked.',
+  'Disclosure revoked': 'The holder has revoked this disclosure.',
+  'Not disclosure verifier': 'This disclosure was shared with a different account.',
+  'Invalid verifier': 'Choose a verifier address other than your own.',
+  'No field selected': 'Select at least one field to share.',
+  'Expiry must be in the future': 'The access expiry must be in the future.',
+  'No access granted': 'That verifier has no access to revoke.',
+  'Access expired or revoked': 'Your access to these values has expired or been revoked.',
+  'Unknown profession': 'That profession is not registered.',
+  'Evidence required': 'Please provide evidence for your request.',
+  'Evidence recipient not an issuer for profession': 'The selected issuer cannot review this profession.',
+  'Evidence recipient has no key': 'The selected issuer has not published an evidence key yet.',
+  'Demo mode disabled': 'Plaintext submissions are only accepted in demo mode.',
+  'Reason required': 'Please give a reason.',
+  'Score must be between 0-100': 'Scores must be between 0 and 100.',
+  'Level must be between 1-10': 'Levels must be between 1 and 10.',
+  'Validity period required': 'Please enter a validity period.',
+  'Additional days required': 'Please enter how many days to add.',
+  'Profession required': 'Please enter a profession name.',
+  'Invalid issuer address': 'Please enter a valid issuer address.',
+  'Organization required': 'Please enter the issuer organization.',
+  'Unknown issuer': 'That address is not a registered issuer.',
+  'Invalid public key': 'The evidence key must be a 33-byte compressed public key.'
+};
+
+// Wallets often wrap the node's error, so the reason may only survive inside a message
+const REVERT_PATTERN = /reverted(?: with reason string)?:\s*["']?([^"'\n]+)/;
+
+const revertReason = (error: any): string | null => {
+  if (typeof error?.reason === 'string' && error.reason) return error.reason;
+
+  const messages = [error?.info?.error?.message, error?.error?.message, error?.shortMessage, error?.message];
+  for (const message of messages) {
+    const match = typeof message === 'string' ? REVERT_PATTERN.exec(message) : null;
+    if (match) return match[1].trim();
+  }
+  return null;
+};
+
+export const describeTxError = (error: any): string => {
+  if (ethers.isError(error, 'ACTION_REJECTED')) return 'You rejected the transaction in your wallet.';
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) return 'Your account does not have enough ETH to pay for gas.';
+
+  const reason = revertReason(error);
+  if (reason) return REVERT_MESSAGES[reason] ?? `The contract rejected the transaction: ${reason}`;
+  if (ethers.isError(error, 'CALL_EXCEPTION')) return 'The contract rejected the transaction.';
+
+  return error?.shortMessage ?? error?.message ?? String(error);
+};
+
+const loadHistory = (): TrackedTransaction[] => {
+  try {
+    const stored: TrackedTransaction[] = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    // An estimate cut short by the reload never reached the wallet
+    return stored.filter(tx => tx.status !== 'estimating');
+  } catch {
+    return [];
+  }
+};
+
+// Newest first; replaced rather than mutated so React sees every change
+let transactions: TrackedTransaction[] = loadHistory();
+const listeners = new Set<() => void>();
+
+const commit = (next: TrackedTransaction[]) => {
+  transactions = next.slice(0, HISTORY_LIMIT);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(transactions));
+  listeners.forEach(listener => listener());
+};
+
+const updateTransaction = (id: string, changes: Partial<TrackedTransaction>) => {
+  commit(transactions.map(tx => (tx.id === id ? { ...tx, ...changes } : tx)));
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isInFlight = (tx: TrackedTransaction) => tx.status === 'estimating' || tx.status === 'pending';
+
+// Estimates, sends and follows one contract call; the error is rethrown after being recorded
+export const sendTransaction = async <A extends Array<any>>(
+  contract: CertificateContract,
+  { label, key }: TransactionRequest,
+  method: TypedContractMethod<A, any, 'nonpayable'>,
+  ...args: ContractMethodArgs<A, 'nonpayable'>
+): Promise<ethers.ContractTransactionReceipt> => {
+  const signer = contract.runner as ethers.Signer;
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  commit([{
+    id,
+    key,
+    label,
+    chainId: getActiveChainId(),
+    from: await signer.getAddress(),
+    status: 'estimating',
+    submittedAt: Date.now()
+  }, ...transactions]);
+
+  try {
+    // Estimating runs the call first, so most reverts surface here before the wallet prompt
+    const gasEstimate = await method.estimateGas(...args);
+    const feeData = await signer.provider!.getFeeData();
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+    updateTransaction(id, {
+      gasEstimate: gasEstimate.toString(),
+      costEstimate: gasPrice ? ethers.formatEther(gasEstimate * gasPrice) : undefined
+    });
+
+    const tx = await method.send(...args);
+    updateTransaction(id, { status: 'pending', hash: tx.hash });
+
+    const receipt = (await tx.wait())!;
+    updateTransaction(id, { status: 'mined', fee: ethers.formatEther(receipt.fee) });
+    return receipt;
+  } catch (error) {
+    updateTransaction(id, { status: 'failed', error: describeTxError(error) });
+    throw error;
+  }
+};
+
+// Hashes a resumed wait is already following, so reconnecting does not stack up waiters
+const watchedHashes = new Set<string>();
+
+// Transactions still pending when the page was closed are followed up once a wallet is connected
+export const resumePendingTransactions = (provider: ethers.Provider, chainId: number) => {
+  for (const tx of transactions) {
+    if (tx.status !== 'pending' || !tx.hash || tx.chainId !== chainId || watchedHashes.has(tx.hash)) continue;
+
+    const hash = tx.hash;
+    watchedHashes.add(hash);
+    provider.waitForTransaction(hash)
+      .then(receipt => updateTransaction(tx.id, receipt?.status === 1
+        ? { status: 'mined', fee: ethers.formatEther(receipt.fee) }
+        : { status: 'failed', error: 'The transaction reverted.' }))
+      .catch(error => console.error('Transaction resume error:', error))
+      .finally(() => watchedHashes.delete(hash));
+  }
+};
+
+// Keeps in-flight transactions so they can still settle
+export const clearTransactionHistory = () => {
+  commit(transactions.filter(isInFlight));
+};
+
+// The account's transactions on the active chain
+export const useTransactions = (account: string) => {
+  const all = useSyncExternalStore(subscribe, () => transactions);
+  const chainId = getActiveChainId();
+  const visible = all.filter(tx => tx.chainId === chainId && tx.from.toLowerCase() === account.toLowerCase());
+
+  return {
+    transactions: visible,
+    isPending: (key: string) => visible.some(tx => tx.key === key && isInFlight(tx))
+  };
+};
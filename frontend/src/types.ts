@@ -0,0 +1,107 @@
+import type { PrivacyProfessionalCertificate } from './typechain';
+import type { AccessGrantedEvent } from './typechain/contracts/PrivacyProfessionalCertificate';
+
+// Named fields of a generated struct or event output, with uint values as JS numbers
+// (IDs, small scores and timestamps all fit comfortably)
+type Fields<T> = {
+  [K in keyof T as K extends keyof unknown[] | `${number}` ? never : K]: T[K] extends bigint ? number : T[K];
+};
+
+// Mirrors PrivacyProfessionalCertificate.RequestStatus
+export enum RequestStatus {
+  Pending,
+  AwaitingDecryption,
+  Approved,
+  Rejected
+}
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  [RequestStatus.Pending]: 'Pending',
+  [RequestStatus.AwaitingDecryption]: 'Awaiting decryption',
+  [RequestStatus.Approved]: 'Approved',
+  [RequestStatus.Rejected]: 'Rejected'
+};
+
+// Mirrors PrivacyProfessionalCertificate.CertificateStatus
+export enum CertificateStatus {
+  NonExistent,
+  Valid,
+  Revoked,
+  Expired,
+  Suspended
+}
+
+// Holders are warned, and nudged to request renewal, this close to expiry
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const daysUntilExpiry = (expiryDate: number): number =>
+  Math.ceil((expiryDate * 1000 - Date.now()) / (24 * 60 * 60 * 1000));
+
+export interface Revocation {
+  reason: string;
+  revokedAt: number;
+}
+
+export type CertificateInfo = Fields<PrivacyProfessionalCertificate.CertificateInfoStructOutput>;
+
+export interface Certificate extends CertificateInfo {
+  id: number;
+  status: CertificateStatus;
+  revocation?: Revocation;
+}
+
+export interface CertificationRequestView {
+  id: number;
+  applicant: string;
+  profession: string;
+  requestTime: number;
+  evidenceHash: string;
+  evidenceURI: string;
+  evidenceRecipient: string;
+  isProcessed: boolean;
+  isApproved: boolean;
+  status: RequestStatus;
+}
+
+// Mirrors PrivacyProfessionalCertificate.DisclosureField
+export enum DisclosureField {
+  Score,
+  Level
+}
+
+export const DISCLOSURE_FIELD_LABELS: Record<DisclosureField, string> = {
+  [DisclosureField.Score]: 'Score',
+  [DisclosureField.Level]: 'Level'
+};
+
+type DisclosureOutput = Awaited<ReturnType<PrivacyProfessionalCertificate['getDisclosure']['staticCall']>>;
+
+export interface Disclosure extends Omit<Fields<DisclosureOutput>, 'field'> {
+  id: number;
+  field: DisclosureField;
+}
+
+// Holder-granted, time-limited access to the raw encrypted score and/or level
+export type AccessGrant = Fields<AccessGrantedEvent.OutputObject>;
+
+// Emergency pause; the reason comes from the latest ContractPaused event
+export interface PauseState {
+  paused: boolean;
+  reason: string;
+}
+
+// An applicant's own request, with the outcome recorded by the decision events
+export interface ApplicantRequest extends CertificationRequestView {
+  transactionHash: string;
+  certificateId?: number;
+  rejectionReason?: string;
+}
+
+// On-chain roles of the connected account; each one unlocks its own console
+export interface Roles {
+  isOwner: boolean;
+  isIssuerAdmin: boolean;
+  isIssuer: boolean;
+  issuerOrganization: string;
+  issuerProfessions: string[];
+}
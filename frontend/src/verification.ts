@@ -0,0 +1,39 @@
+import { getActiveChainId } from './contract';
+import { DEFAULT_CHAIN_ID } from './networks';
+
+export interface VerificationLink {
+  certificateId: number;
+  expectedHash: string;
+  chainId: number;
+}
+
+const VERIFY_PATH = /^\/verify\/(\d+)\/?$/;
+
+export const buildVerificationUrl = (
+  certificateId: number,
+  credentialHash: string,
+  chainId: number = getActiveChainId()
+): string => {
+  const url = new URL(`/verify/${certificateId}`, window.location.origin);
+  url.searchParams.set('hash', credentialHash);
+  // Links for the default network stay short; others name their chain
+  if (chainId !== DEFAULT_CHAIN_ID) url.searchParams.set('chain', String(chainId));
+  return url.toString();
+};
+
+// Returns null for anything that is not a well-formed /verify/<id>?hash=<bytes32> link
+export const parseVerificationLink = (location: Location): VerificationLink | null => {
+  const match = VERIFY_PATH.exec(location.pathname);
+  if (!match) return null;
+
+  const params = new URLSearchParams(location.search);
+  return {
+    certificateId: parseInt(match[1]),
+    expectedHash: params.get('hash') ?? '',
+    chainId: Number(params.get('chain') ?? DEFAULT_CHAIN_ID)
+  };
+};
+
+export const isWellFormedHash = (hash: string): boolean => /^0x[0-9a-fA-F]{64}$/.test(hash);
+
+export const hashesMatch = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
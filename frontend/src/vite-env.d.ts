@@ -1,5 +1,16 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_DEFAULT_CHAIN_ID?: string;
+  readonly VITE_EVIDENCE_STORE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
 interface Window {
   ethereum?: {
     request: (args: { method: string; params?: any[] }) => Promise<any>;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -5,7 +6,7 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   optimizeDeps: {
-    exclude: ['@fhevm/hardhat-plugin', 'fhevmjs'],
+    exclude: ['@fhevm/hardhat-plugin', '@zama-fhe/relayer-sdk'],
     include: ['ethers'] // 明确包含 ethers
   },
   define: {
@@ -25,5 +26,9 @@ export default defineConfig({
   build: {
     outDir: '../dist',
     emptyOutDir: true
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: './src/test/setup.ts'
   }
 })
\ No newline at end of file
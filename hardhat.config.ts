@@ -0,0 +1,43 @@
+import "@nomicfoundation/hardhat-toolbox";
+import "@fhevm/hardhat-plugin";
+import { HardhatUserConfig } from "hardhat/config";
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+    },
+  },
+  networks: {
+    sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.gateway.tenderly.co",
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+    },
+    // Runs against the fhEVM mock from @fhevm/hardhat-plugin, which `npm test` relies on
+    hardhat: {
+      chainId: 31337,
+    },
+    // `npm run node` in another terminal; must match LOCAL_CHAIN_ID in frontend/src/networks.ts
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
+  },
+  // Typed bindings for the frontend and the contract tests, regenerated on every compile and never committed
+  typechain: {
+    outDir: "frontend/src/typechain",
+    target: "ethers-v6",
+  },
+  paths: {
+    sources: "./contracts",
+    tests: "./test",
+    cache: "./cache",
+    artifacts: "./artifacts",
+  },
+};
+
+export default config;
@@ -1,4 +1,17 @@
-const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
+const { ethers } = hre;
+
+// The frontend reads address, ABI and deploy block for every chain from here
+const MANIFEST_PATH = path.join(__dirname, "..", "frontend", "src", "deployments.json");
+
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+function readManifest() {
+    if (!fs.existsSync(MANIFEST_PATH)) return {};
+    return JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"));
+}
 
 async function main() {
     console.log("Deploying Privacy Professional Certificate contract...");
@@ -6,20 +19,23 @@ async function main() {
     // Get the deployer account
     const [deployer] = await ethers.getSigners();
     console.log("Deploying with account:", deployer.address);
-    console.log("Account balance:", (await deployer.getBalance()).toString());
+    console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
 
     // Deploy the contract
     const PrivacyProfessionalCertificate = await ethers.getContractFactory("PrivacyProfessionalCertificate");
     const certificate = await PrivacyProfessionalCertificate.deploy();
 
-    await certificate.deployed();
+    await certificate.waitForDeployment();
+    const address = await certificate.getAddress();
+    const deployTx = certificate.deploymentTransaction();
 
-    console.log("Contract deployed to:", certificate.address);
-    console.log("Transaction hash:", certificate.deployTransaction.hash);
+    console.log("Contract deployed to:", address);
+    console.log("Transaction hash:", deployTx.hash);
 
-    // Wait for a few confirmations
-    console.log("Waiting for confirmations...");
-    await certificate.deployTransaction.wait(3);
+    // Local nodes mine on demand, so waiting for extra blocks would never finish
+    const confirmations = LOCAL_NETWORKS.includes(hre.network.name) ? 1 : 3;
+    console.log(`Waiting for ${confirmations} confirmation(s)...`);
+    const receipt = await deployTx.wait(confirmations);
 
     console.log("Contract deployment confirmed!");
 
@@ -32,15 +48,24 @@ async function main() {
     console.log("Initial certificate count:", certificateCount.toString());
     console.log("Initial request count:", requestCount.toString());
 
-    // Display deployment information for frontend integration
-    console.log("\n=== Deployment Summary ===");
-    console.log("Contract Address:", certificate.address);
-    console.log("Network:", (await ethers.provider.getNetwork()).name);
-    console.log("Block Number:", await ethers.provider.getBlockNumber());
+    // Record the deployment for the frontend, replacing any earlier one on the same chain
+    const { chainId } = await ethers.provider.getNetwork();
+    const { abi } = await hre.artifacts.readArtifact("PrivacyProfessionalCertificate");
+    const manifest = readManifest();
+    manifest[chainId.toString()] = {
+        network: hre.network.name,
+        chainId: Number(chainId),
+        address,
+        abi,
+        blockNumber: receipt.blockNumber
+    };
+    fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + "\n");
 
-    console.log("\n=== Frontend Integration ===");
-    console.log("Update the CONTRACT_ADDRESS in index.html:");
-    console.log(`const CONTRACT_ADDRESS = "${certificate.address}";`);
+    console.log("\n=== Deployment Summary ===");
+    console.log("Contract Address:", address);
+    console.log("Network:", hre.network.name, `(chain ${chainId})`);
+    console.log("Block Number:", receipt.blockNumber);
+    console.log("Manifest:", path.relative(process.cwd(), MANIFEST_PATH));
 }
 
 main()
@@ -48,4 +73,4 @@ main()
     .catch((error) => {
         console.error("Deployment failed:", error);
         process.exit(1);
-    });
\ No newline at end of file
+    });
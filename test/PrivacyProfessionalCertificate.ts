@@ -0,0 +1,432 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { PrivacyProfessionalCertificate } from "../frontend/src/typechain";
+
+// Seeded by the constructor: minimum score 75, minimum level 3, valid for 365 days
+const PROFESSION = "Software Engineer";
+const OTHER_PROFESSION = "Data Scientist";
+
+const DAY = 24 * 60 * 60;
+
+// Mirrors the CertificateStatus and RequestStatus enums in the contract
+const Status = { NonExistent: 0n, Valid: 1n, Revoked: 2n, Expired: 3n, Suspended: 4n };
+const RequestStatus = { Pending: 0n, AwaitingDecryption: 1n, Approved: 2n, Rejected: 3n };
+
+// Any 33-byte compressed key will do; evidence is never decrypted on-chain
+const EVIDENCE_KEY = "0x02" + "11".repeat(32);
+
+describe("PrivacyProfessionalCertificate", function () {
+  let contract: PrivacyProfessionalCertificate;
+  let contractAddress: string;
+  let issuer: HardhatEthersSigner;
+  let applicant: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  before(function () {
+    // Encrypted inputs and the decryption oracle only exist on the mock
+    if (!fhevm.isMock) {
+      console.warn("Skipping: these tests need the fhEVM mock on the Hardhat network");
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    // The first signer deploys, so it is the owner and an issuer admin
+    [, issuer, applicant, outsider] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory("PrivacyProfessionalCertificate");
+    contract = (await factory.deploy()) as unknown as PrivacyProfessionalCertificate;
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
+
+    await contract.authorizeIssuer(issuer.address, "Acme Certification Board", "ipfs://acme");
+    await contract.setIssuerProfession(issuer.address, PROFESSION, true);
+    await contract.connect(issuer).setEvidenceKey(EVIDENCE_KEY);
+  });
+
+  const evidence = () => ({
+    contentHash: ethers.id("evidence"),
+    uri: "ipfs://evidence",
+    recipient: issuer.address
+  });
+
+  // Submits an encrypted score and level the way the frontend does, returning the request ID
+  const requestCertification = async (score: number, level: number, profession = PROFESSION) => {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, applicant.address)
+      .add64(score)
+      .add8(level)
+      .encrypt();
+
+    await contract
+      .connect(applicant)
+      .requestCertification(profession, input.handles[0], input.handles[1], input.inputProof, evidence());
+    return (await contract.nextRequestId()) - 1n;
+  };
+
+  // Processing only asks for the decision; the oracle callback records it
+  const processRequest = async (requestId: bigint) => {
+    await contract.connect(issuer).processCertificationRequest(requestId);
+    await fhevm.awaitDecryptionOracle();
+  };
+
+  const issueCertificate = async (score = 82, level = 4) => {
+    await processRequest(await requestCertification(score, level));
+    return (await contract.nextCertificateId()) - 1n;
+  };
+
+  describe("certification lifecycle", function () {
+    it("issues a certificate when the encrypted score and level meet the requirements", async function () {
+      const requestId = await requestCertification(82, 4);
+      expect(await contract.requestStatus(requestId)).to.equal(RequestStatus.Pending);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.emit(contract, "CertificationDecisionRequested");
+      expect(await contract.requestStatus(requestId)).to.equal(RequestStatus.AwaitingDecryption);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.requestStatus(requestId)).to.equal(RequestStatus.Approved);
+      expect([...(await contract.getHolderCertificates(applicant.address))]).to.deep.equal([1n]);
+
+      const [status, info] = await contract.lookupCertificate(1);
+      expect(status).to.equal(Status.Valid);
+      expect(info.holder).to.equal(applicant.address);
+      expect(info.profession).to.equal(PROFESSION);
+      expect(info.issuer).to.equal(issuer.address);
+      expect(info.issuerOrganization).to.equal("Acme Certification Board");
+      expect(info.expiryDate - info.issueDate).to.equal(BigInt(365 * DAY));
+    });
+
+    it("lets the holder decrypt the score and level on the certificate", async function () {
+      const certificateId = await issueCertificate(82, 4);
+
+      const scoreHandle = await contract.connect(applicant).getEncryptedScore(certificateId);
+      const levelHandle = await contract.connect(applicant).getEncryptedLevel(certificateId);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, scoreHandle, contractAddress, applicant)).to.equal(82n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, levelHandle, contractAddress, applicant)).to.equal(4n);
+
+      await expect(contract.connect(outsider).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Not authorized to view score");
+    });
+
+    it("verifies an issued certificate", async function () {
+      const certificateId = await issueCertificate();
+
+      const result = await contract.verifyCertificate(certificateId);
+      expect(result.holder).to.equal(applicant.address);
+      expect(result.isValid).to.equal(true);
+      expect(result.issuerActive).to.equal(true);
+
+      expect((await contract.lookupCertificate(99))[0]).to.equal(Status.NonExistent);
+      await expect(contract.verifyCertificate(99)).to.be.revertedWith("Invalid certificate ID");
+    });
+
+    it("does not process a request twice", async function () {
+      const requestId = await requestCertification(82, 4);
+      await processRequest(requestId);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Request already processed");
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, "Duplicate"))
+        .to.be.revertedWith("Request already processed");
+    });
+
+    it("lets the issuer reject a pending request with a reason", async function () {
+      const requestId = await requestCertification(82, 4);
+
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, ""))
+        .to.be.revertedWith("Reason required");
+      await expect(contract.connect(issuer).rejectCertificationRequest(requestId, "Evidence unreadable"))
+        .to.emit(contract, "CertificationRejected")
+        .withArgs(requestId, "Evidence unreadable");
+
+      expect(await contract.requestStatus(requestId)).to.equal(RequestStatus.Rejected);
+    });
+
+    it("revokes a certificate only with a reason", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, ""))
+        .to.be.revertedWith("Reason required");
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Fraudulent evidence"))
+        .to.emit(contract, "CertificateRevoked")
+        .withArgs(certificateId, "Fraudulent evidence");
+
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Revoked);
+      await expect(contract.verifyCertificate(certificateId)).to.be.revertedWith("Certificate not valid");
+    });
+
+    it("extends validity and settles a pending renewal", async function () {
+      const certificateId = await issueCertificate();
+      const [, before] = await contract.lookupCertificate(certificateId);
+
+      await contract.connect(applicant).requestRenewal(certificateId);
+      await expect(contract.connect(applicant).requestRenewal(certificateId))
+        .to.be.revertedWith("Renewal already requested");
+      expect(await contract.renewalRequested(certificateId)).to.equal(true);
+
+      await expect(contract.connect(issuer).extendCertificateValidity(certificateId, 0, "Renewal"))
+        .to.be.revertedWith("Additional days required");
+      await expect(contract.connect(issuer).extendCertificateValidity(certificateId, 30, "Renewal"))
+        .to.emit(contract, "CertificateValidityExtended")
+        .withArgs(certificateId, before.expiryDate + BigInt(30 * DAY), "Renewal");
+
+      expect(await contract.renewalRequested(certificateId)).to.equal(false);
+    });
+  });
+
+  describe("expiry", function () {
+    it("expires certificates once the validity period has passed", async function () {
+      const certificateId = await issueCertificate();
+
+      await time.increase(364 * DAY);
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Valid);
+
+      await time.increase(2 * DAY);
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Expired);
+      await expect(contract.verifyCertificate(certificateId)).to.be.revertedWith("Certificate expired");
+    });
+
+    it("can no longer extend or renew an expired certificate", async function () {
+      const certificateId = await issueCertificate();
+      await time.increase(366 * DAY);
+
+      await expect(contract.connect(issuer).extendCertificateValidity(certificateId, 30, "Late renewal"))
+        .to.be.revertedWith("Certificate expired");
+      await expect(contract.connect(applicant).requestRenewal(certificateId))
+        .to.be.revertedWith("Certificate expired");
+    });
+
+    it("keeps an extended certificate valid past its original expiry", async function () {
+      const certificateId = await issueCertificate();
+      await contract.connect(issuer).extendCertificateValidity(certificateId, 30, "Renewal");
+
+      await time.increase(380 * DAY);
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Valid);
+    });
+  });
+
+  describe("requirement thresholds", function () {
+    const decide = async (score: number, level: number) => {
+      const requestId = await requestCertification(score, level);
+      await processRequest(requestId);
+      return contract.requestStatus(requestId);
+    };
+
+    it("approves a request exactly at the minimum score and level", async function () {
+      expect(await decide(75, 3)).to.equal(RequestStatus.Approved);
+    });
+
+    it("rejects a score below the minimum without issuing a certificate", async function () {
+      expect(await decide(74, 9)).to.equal(RequestStatus.Rejected);
+      expect(await contract.getCertificateCount()).to.equal(0n);
+    });
+
+    it("rejects a level below the minimum", async function () {
+      expect(await decide(100, 2)).to.equal(RequestStatus.Rejected);
+    });
+
+    it("treats out-of-range encrypted values as zero", async function () {
+      expect(await decide(150, 4)).to.equal(RequestStatus.Rejected);
+      expect(await decide(90, 11)).to.equal(RequestStatus.Rejected);
+    });
+
+    it("applies updated requirements to requests processed afterwards", async function () {
+      const requestId = await requestCertification(80, 4);
+      await contract.setProfessionRequirements(PROFESSION, 85, 3, 180);
+
+      await processRequest(requestId);
+      expect(await contract.requestStatus(requestId)).to.equal(RequestStatus.Rejected);
+
+      const certificateId = await issueCertificate(90, 4);
+      const [, info] = await contract.lookupCertificate(certificateId);
+      expect(info.expiryDate - info.issueDate).to.equal(BigInt(180 * DAY));
+    });
+
+    it("validates requirement ranges", async function () {
+      await expect(contract.setProfessionRequirements(PROFESSION, 101, 3, 365))
+        .to.be.revertedWith("Score must be between 0-100");
+      await expect(contract.setProfessionRequirements(PROFESSION, 75, 11, 365))
+        .to.be.revertedWith("Level must be between 1-10");
+      await expect(contract.setProfessionRequirements(PROFESSION, 75, 3, 0))
+        .to.be.revertedWith("Validity period required");
+    });
+
+    it("only accepts requests for registered professions", async function () {
+      await expect(requestCertification(82, 4, "Astronaut")).to.be.revertedWith("Unknown profession");
+    });
+  });
+
+  describe("roles", function () {
+    it("restricts owner settings to the owner", async function () {
+      await expect(contract.connect(outsider).setProfessionRequirements(PROFESSION, 50, 1, 30))
+        .to.be.revertedWith("Not authorized");
+      await expect(contract.connect(outsider).setDemoMode(true)).to.be.revertedWith("Not authorized");
+      await expect(contract.connect(outsider).emergencyPause("Incident")).to.be.revertedWith("Not authorized");
+      await expect(contract.connect(outsider).setIssuerAdmin(outsider.address, true))
+        .to.be.revertedWith("Not authorized");
+    });
+
+    it("restricts the issuer registry to issuer admins", async function () {
+      await expect(contract.connect(outsider).authorizeIssuer(outsider.address, "Rogue Board", ""))
+        .to.be.revertedWith("Not issuer admin");
+      await expect(contract.connect(outsider).setIssuerProfession(issuer.address, OTHER_PROFESSION, true))
+        .to.be.revertedWith("Not issuer admin");
+
+      await contract.setIssuerAdmin(outsider.address, true);
+      await expect(contract.connect(outsider).authorizeIssuer(outsider.address, "Second Board", ""))
+        .to.emit(contract, "IssuerAuthorized")
+        .withArgs(outsider.address, "Second Board");
+    });
+
+    it("only lets authorized issuers process requests", async function () {
+      const requestId = await requestCertification(82, 4);
+
+      await expect(contract.connect(outsider).processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+      await expect(contract.connect(applicant).processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+    });
+
+    it("only lets issuers act on professions they are assigned", async function () {
+      const certificateId = await issueCertificate();
+      await contract.setIssuerProfession(issuer.address, PROFESSION, false);
+
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Out of scope"))
+        .to.be.revertedWith("Not authorized for profession");
+      await expect(requestCertification(82, 4)).to.be.revertedWith("Evidence recipient not an issuer for profession");
+    });
+
+    it("stops revoked issuers from processing, but keeps their certificates verifiable", async function () {
+      const certificateId = await issueCertificate();
+      const requestId = await requestCertification(82, 4);
+
+      await expect(contract.revokeIssuer(issuer.address)).to.emit(contract, "IssuerRevoked").withArgs(issuer.address);
+
+      await expect(contract.connect(issuer).processCertificationRequest(requestId))
+        .to.be.revertedWith("Not authorized issuer");
+
+      const [status, info] = await contract.lookupCertificate(certificateId);
+      expect(status).to.equal(Status.Valid);
+      expect(info.issuerActive).to.equal(false);
+    });
+
+    it("only lets the holder request renewal", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.connect(outsider).requestRenewal(certificateId))
+        .to.be.revertedWith("Not certificate holder");
+    });
+
+    it("only accepts plaintext submissions in demo mode", async function () {
+      await expect(contract.connect(applicant).requestCertificationDemo(PROFESSION, 82, 4, evidence()))
+        .to.be.revertedWith("Demo mode disabled");
+
+      await contract.setDemoMode(true);
+      await expect(contract.connect(applicant).requestCertificationDemo(PROFESSION, 82, 4, evidence()))
+        .to.emit(contract, "CertificationRequested")
+        .withArgs(1n, applicant.address, PROFESSION);
+    });
+
+    it("suspends every certificate and freezes issuer actions while paused", async function () {
+      const certificateId = await issueCertificate();
+
+      await expect(contract.emergencyPause("")).to.be.revertedWith("Reason required");
+      await contract.emergencyPause("Key compromise");
+
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Suspended);
+      expect((await contract.verifyCertificate(certificateId)).isValid).to.equal(false);
+      await expect(requestCertification(82, 4)).to.be.revertedWith("Contract paused");
+      await expect(contract.connect(issuer).revokeCertificate(certificateId, "Compromised"))
+        .to.be.revertedWith("Contract paused");
+
+      await contract.unpause();
+      expect((await contract.lookupCertificate(certificateId))[0]).to.equal(Status.Valid);
+    });
+  });
+
+  describe("access grants", function () {
+    // Claims the granted values and returns their handles from the AccessClaimed event
+    const claim = async (certificateId: bigint) => {
+      const receipt = await (await contract.connect(outsider).claimAccess(certificateId)).wait();
+      const claimed = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "AccessClaimed");
+      return claimed!.args;
+    };
+
+    it("lets a verifier decrypt granted values only through a claim", async function () {
+      const certificateId = await issueCertificate(82, 4);
+      const expiresAt = (await time.latest()) + DAY;
+      await contract.connect(applicant).grantAccess(certificateId, outsider.address, true, true, expiresAt);
+
+      await expect(contract.connect(outsider).getEncryptedScore(certificateId))
+        .to.be.revertedWith("Not authorized to view score");
+
+      const { score, level } = await claim(certificateId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, score, contractAddress, outsider)).to.equal(82n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, level, contractAddress, outsider)).to.equal(4n);
+    });
+
+    it("refuses claims once the grant expires or is revoked", async function () {
+      const certificateId = await issueCertificate();
+      const expiresAt = (await time.latest()) + DAY;
+      await contract.connect(applicant).grantAccess(certificateId, outsider.address, true, false, expiresAt);
+
+      await time.increaseTo(expiresAt);
+      await expect(contract.connect(outsider).claimAccess(certificateId)).to.be.revertedWith("Access expired or revoked");
+
+      await contract.connect(applicant).grantAccess(certificateId, outsider.address, true, false, expiresAt + DAY);
+      await contract.connect(applicant).revokeAccess(certificateId, outsider.address);
+      await expect(contract.connect(outsider).claimAccess(certificateId)).to.be.revertedWith("Access expired or revoked");
+    });
+
+    it("does not hand out the score after a level-only replacement grant", async function () {
+      const certificateId = await issueCertificate();
+      const expiresAt = (await time.latest()) + DAY;
+      await contract.connect(applicant).grantAccess(certificateId, outsider.address, true, true, expiresAt);
+      await contract.connect(applicant).grantAccess(certificateId, outsider.address, false, true, expiresAt);
+
+      const { score, level } = await claim(certificateId);
+      expect(score).to.equal(ethers.ZeroHash);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, level, contractAddress, outsider)).to.equal(4n);
+    });
+  });
+
+  describe("disclosures", function () {
+    const Field = { Score: 0, Level: 1 };
+
+    const createDisclosure = async (certificateId: bigint, field: number, threshold: number) => {
+      await contract.connect(applicant).createDisclosure(certificateId, outsider.address, field, threshold);
+      return (await contract.nextDisclosureId()) - 1n;
+    };
+
+    it("lets the verifier claim and decrypt the answer", async function () {
+      const certificateId = await issueCertificate(82, 4);
+      const met = await createDisclosure(certificateId, Field.Score, 80);
+      const unmet = await createDisclosure(certificateId, Field.Level, 5);
+
+      await expect(contract.connect(issuer).claimDisclosure(met)).to.be.revertedWith("Not disclosure verifier");
+
+      for (const [disclosureId, expected] of [[met, true], [unmet, false]] as const) {
+        const receipt = await (await contract.connect(outsider).claimDisclosure(disclosureId)).wait();
+        const claimed = receipt!.logs
+          .map((log) => contract.interface.parseLog(log))
+          .find((parsed) => parsed?.name === "DisclosureClaimed");
+        expect(await fhevm.userDecryptEbool(claimed!.args.result, contractAddress, outsider)).to.equal(expected);
+      }
+    });
+
+    it("refuses claims once the holder revokes the disclosure", async function () {
+      const disclosureId = await createDisclosure(await issueCertificate(), Field.Score, 80);
+
+      await contract.connect(applicant).revokeDisclosure(disclosureId);
+      await expect(contract.connect(outsider).claimDisclosure(disclosureId)).to.be.revertedWith("Disclosure revoked");
+    });
+  });
+});